@@ -0,0 +1,20 @@
+import { getCanvas } from "@/lib/canvas";
+import { renderCanvasPng } from "@/lib/png";
+
+export const runtime = "nodejs";
+
+// GET /api/canvas.png?scale=1 renders the current canvas as a PNG
+export async function GET(request: Request) {
+  const scaleParam = new URL(request.url).searchParams.get("scale");
+  const scale = scaleParam === null ? 1 : Number(scaleParam);
+  if (!Number.isFinite(scale) || scale <= 0) {
+    return new Response(JSON.stringify({ error: "scale must be a positive number" }), {
+      status: 400,
+      headers: { "content-type": "application/json" },
+    });
+  }
+  const png = renderCanvasPng(await getCanvas(), scale);
+  return new Response(png, {
+    headers: { "content-type": "image/png", "cache-control": "no-store" },
+  });
+}
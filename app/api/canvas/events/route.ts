@@ -1,15 +1,20 @@
-import { getCanvasEvents } from "@/lib/canvas";
+import { getCanvasEvents, parseCanvasEventQuery } from "@/lib/canvas";
 
 export const runtime = "nodejs";
 
+// GET /api/canvas/events?limit=&before=|after=&type=&source=&tool=&clientId=&from=&to=&x=&y=&w=&h=
+// returns one page of events; follow nextCursor to page further
 export async function GET(request: Request) {
-  const url = new URL(request.url);
-  const limitParam = url.searchParams.get("limit");
-  const limit = limitParam ? Number(limitParam) : undefined;
-  const events = await getCanvasEvents({ limit: Number.isFinite(limit) ? (limit as number) : undefined });
-  return new Response(JSON.stringify({ events }), {
-    headers: { "content-type": "application/json" },
-  });
+  try {
+    const query = parseCanvasEventQuery(new URL(request.url).searchParams);
+    const page = await getCanvasEvents(query);
+    return new Response(JSON.stringify(page), {
+      headers: { "content-type": "application/json" },
+    });
+  } catch (err) {
+    return new Response(JSON.stringify({ error: err instanceof Error ? err.message : "Unknown error" }), {
+      status: 400,
+      headers: { "content-type": "application/json" },
+    });
+  }
 }
-
-
@@ -0,0 +1,33 @@
+import { getPixelHistory } from "@/lib/canvas";
+
+export const runtime = "nodejs";
+
+function parseIntParam(value: string | null): number | undefined {
+  if (value === null || value.trim() === "") return undefined;
+  const n = Number(value);
+  return Number.isInteger(n) ? n : undefined;
+}
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const x = parseIntParam(url.searchParams.get("x"));
+  const y = parseIntParam(url.searchParams.get("y"));
+  const limit = parseIntParam(url.searchParams.get("limit"));
+  if (x === undefined || y === undefined) {
+    return new Response(JSON.stringify({ error: "x and y must be integers" }), {
+      status: 400,
+      headers: { "content-type": "application/json" },
+    });
+  }
+  try {
+    const history = await getPixelHistory({ x, y, limit: limit && limit > 0 ? Math.min(limit, 500) : undefined });
+    return new Response(JSON.stringify(history), {
+      headers: { "content-type": "application/json" },
+    });
+  } catch (err) {
+    return new Response(JSON.stringify({ error: err instanceof Error ? err.message : "Unknown error" }), {
+      status: 400,
+      headers: { "content-type": "application/json" },
+    });
+  }
+}
@@ -0,0 +1,99 @@
+import { z } from "zod";
+import { CooldownError, setPixels, summarizePixelWrite } from "@/lib/canvas";
+import { hasScope, isAuthEnabled, verifyApiKey } from "@/lib/auth";
+import { clientIdFromHeaders } from "@/lib/identity";
+
+export const runtime = "nodejs";
+
+// Same arguments as the set_pixels MCP tool
+const bodySchema = z.object({
+  updates: z.array(
+    z.object({
+      x: z.number().int().min(0),
+      y: z.number().int().min(0),
+      color: z.string().default("#000000"),
+    })
+  ).min(1),
+  partial: z.boolean().optional().default(false),
+  dryRun: z.boolean().optional().default(false),
+});
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json", ...headers },
+  });
+}
+
+// Browsers send Origin with every cross-site POST. Anything but this host (including
+// "null" from sandboxed pages) counts as cross-origin.
+function isCrossOrigin(request: Request): boolean {
+  const origin = request.headers.get("origin");
+  if (!origin) return false;
+  const host = request.headers.get("x-forwarded-host") ?? request.headers.get("host");
+  try {
+    return new URL(origin).host !== host;
+  } catch {
+    return true;
+  }
+}
+
+// POST /api/canvas/pixels { updates: [{ x, y, color }], partial?, dryRun? } paints the
+// default canvas with source "api". Callers are identified, scoped, rate limited
+// and kept out of protected regions exactly like set_pixels callers; the response
+// is the same summary too. Only JSON bodies are accepted, and cross-origin requests
+// need an API key, so plain HTML forms on other sites can't paint.
+export async function POST(request: Request) {
+  const contentType = request.headers.get("content-type")?.split(";")[0].trim().toLowerCase();
+  if (contentType !== "application/json") {
+    return jsonResponse(415, { error: "Content-Type must be application/json" });
+  }
+  const bearer = request.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  if (!bearer && isCrossOrigin(request)) {
+    return jsonResponse(403, { error: "forbidden", message: "Cross-origin requests must send an API key" });
+  }
+  let authInfo;
+  try {
+    authInfo = await verifyApiKey(bearer);
+  } catch (err) {
+    // Like the MCP endpoint, bad keys only matter while auth is enabled
+    if (isAuthEnabled()) {
+      return jsonResponse(401, { error: "unauthorized", message: err instanceof Error ? err.message : "Invalid API key" });
+    }
+  }
+  if (!hasScope(authInfo, "paint")) {
+    return jsonResponse(403, {
+      error: "forbidden",
+      message: 'Painting requires an API key with the "paint" scope',
+      requiredScope: "paint",
+    });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonResponse(400, { error: "Request body must be JSON" });
+  }
+  const parsed = bodySchema.safeParse(body);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return jsonResponse(400, { error: `${issue.path.join(".") || "body"}: ${issue.message}` });
+  }
+
+  const clientId = authInfo ? `auth:${authInfo.clientId}` : clientIdFromHeaders(request.headers);
+  try {
+    const result = await setPixels({ ...parsed.data, source: "api", clientId });
+    return jsonResponse(200, summarizePixelWrite(result));
+  } catch (err) {
+    if (err instanceof CooldownError) {
+      const retryAfterMs = Math.max(0, err.retryAtMs - Date.now());
+      return jsonResponse(
+        429,
+        { error: "cooldown", message: err.message, requested: err.requested, retryAtMs: err.retryAtMs, retryAfterMs, cooldown: err.status },
+        { "retry-after": String(Math.ceil(retryAfterMs / 1000)) }
+      );
+    }
+    return jsonResponse(400, { error: err instanceof Error ? err.message : "Unknown error" });
+  }
+}
@@ -0,0 +1,38 @@
+import { getRegion, type RegionFormat } from "@/lib/canvas";
+
+export const runtime = "nodejs";
+
+const FORMATS: readonly RegionFormat[] = ["hex", "index", "rle"];
+
+function parseIntParam(value: string | null): number | undefined {
+  if (value === null || value.trim() === "") return undefined;
+  const n = Number(value);
+  return Number.isInteger(n) ? n : undefined;
+}
+
+// GET /api/canvas/region?x=&y=&w=&h=&format=hex|index|rle
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const x = parseIntParam(url.searchParams.get("x"));
+  const y = parseIntParam(url.searchParams.get("y"));
+  const width = parseIntParam(url.searchParams.get("w"));
+  const height = parseIntParam(url.searchParams.get("h"));
+  const format = (url.searchParams.get("format") ?? "hex") as RegionFormat;
+  if (x === undefined || y === undefined || width === undefined || height === undefined || !FORMATS.includes(format)) {
+    return new Response(JSON.stringify({ error: "x, y, w and h must be integers and format one of hex, index, rle" }), {
+      status: 400,
+      headers: { "content-type": "application/json" },
+    });
+  }
+  try {
+    const region = await getRegion({ x, y, width, height, format });
+    return new Response(JSON.stringify(region), {
+      headers: { "content-type": "application/json" },
+    });
+  } catch (err) {
+    return new Response(JSON.stringify({ error: err instanceof Error ? err.message : "Unknown error" }), {
+      status: 400,
+      headers: { "content-type": "application/json" },
+    });
+  }
+}
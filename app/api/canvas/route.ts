@@ -1,8 +1,23 @@
-import { getCanvas } from "@/lib/canvas";
+import { getCanvas, getCanvasAt, parseTimestamp } from "@/lib/canvas";
 
 export const runtime = "nodejs";
 
-export async function GET() {
+export async function GET(request: Request) {
+  // `at` (epoch ms or ISO 8601) returns the canvas as it was at that time
+  const at = new URL(request.url).searchParams.get("at");
+  if (at !== null) {
+    const timestampMs = parseTimestamp(at);
+    if (timestampMs === undefined) {
+      return new Response(JSON.stringify({ error: "at must be epoch milliseconds or an ISO 8601 date" }), {
+        status: 400,
+        headers: { "content-type": "application/json" },
+      });
+    }
+    const state = await getCanvasAt(timestampMs);
+    return new Response(JSON.stringify(state), {
+      headers: { "content-type": "application/json" },
+    });
+  }
   const state = await getCanvas();
   return new Response(JSON.stringify(state), {
     headers: { "content-type": "application/json" },
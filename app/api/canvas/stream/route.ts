@@ -0,0 +1,146 @@
+import { getCanvas, getCanvasEventsAfter, getFirstCanvasEventId, getLatestCanvasEventId, isStructuralEvent, subscribeToCanvasEvents } from "@/lib/canvas";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+// Close a little before maxDuration; EventSource reconnects with Last-Event-ID
+const STREAM_DURATION_MS = 55_000;
+// Fallback for writes committed by other server instances
+const POLL_INTERVAL_MS = 2000;
+const KEEPALIVE_INTERVAL_MS = 15_000;
+// Beyond this many missed events a fresh snapshot is cheaper than replaying them
+const MAX_RESUME_EVENTS = 5000;
+
+function parseEventId(value: string | null): number | undefined {
+  if (value === null || value.trim() === "") return undefined;
+  const id = Number(value);
+  return Number.isInteger(id) && id >= -1 ? id : undefined;
+}
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  // EventSource sends Last-Event-ID on reconnect; `after` lets clients resume explicitly
+  const resumeFrom = parseEventId(request.headers.get("last-event-id")) ?? parseEventId(url.searchParams.get("after"));
+  const wantsSnapshot = url.searchParams.get("snapshot") !== "false";
+
+  const encoder = new TextEncoder();
+  let cleanup = () => { };
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      let lastId = -1;
+      let pumping = false;
+      let pendingPump = false;
+
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+
+      const sendMessage = (event: string, id: number, data: unknown) => {
+        send(`event: ${event}\nid: ${id}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      // Reads the state after `atId` is known, so any event after it that is
+      // already reflected in the state gets re-sent; re-applying events in
+      // order on top of the snapshot is harmless.
+      const sendSnapshot = async (atId: number) => {
+        const state = await getCanvas();
+        lastId = atId;
+        sendMessage("snapshot", atId, { state, lastEventId: atId });
+      };
+
+      const pump = async () => {
+        if (pumping) {
+          pendingPump = true;
+          return;
+        }
+        pumping = true;
+        try {
+          do {
+            pendingPump = false;
+            for (; ;) {
+              if (closed) return;
+              // Compaction trimmed events this client hasn't seen yet; deltas would
+              // leave it on a stale board, so start over from a snapshot like on connect
+              if (wantsSnapshot && lastId < (await getFirstCanvasEventId()) - 1) {
+                await sendSnapshot(await getLatestCanvasEventId());
+                continue;
+              }
+              let events = await getCanvasEventsAfter(lastId);
+              if (events.length === 0) break;
+              // Resets, resizes and palette changes can't be applied as deltas:
+              // stop the batch there and follow it with a fresh snapshot
+              const structuralAt = events.findIndex(isStructuralEvent);
+              if (structuralAt !== -1) events = events.slice(0, structuralAt + 1);
+              lastId = events[events.length - 1].id;
+              sendMessage("events", lastId, events);
+              if (structuralAt !== -1 && wantsSnapshot) await sendSnapshot(lastId);
+            }
+          } while (pendingPump);
+        } catch (err) {
+          send(`event: stream_error\ndata: ${JSON.stringify({ message: err instanceof Error ? err.message : "Unknown error" })}\n\n`);
+        } finally {
+          pumping = false;
+        }
+      };
+
+      let unsubscribe = () => { };
+      let pollTimer: ReturnType<typeof setInterval> | undefined;
+      const keepaliveTimer = setInterval(() => send(": keepalive\n\n"), KEEPALIVE_INTERVAL_MS);
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(pollTimer);
+        clearInterval(keepaliveTimer);
+        clearTimeout(endTimer);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the runtime
+        }
+      };
+      cleanup = close;
+      const endTimer = setTimeout(close, STREAM_DURATION_MS);
+      request.signal.addEventListener("abort", close);
+
+      send("retry: 1000\n\n");
+      try {
+        const latestId = await getLatestCanvasEventId();
+        // Events compacted out of the log can't be replayed; those clients get a snapshot
+        const canResume = resumeFrom !== undefined && resumeFrom <= latestId && latestId - resumeFrom <= MAX_RESUME_EVENTS
+          && resumeFrom >= (await getFirstCanvasEventId()) - 1;
+        if (canResume) {
+          lastId = resumeFrom;
+        } else if (wantsSnapshot) {
+          await sendSnapshot(latestId);
+        } else {
+          lastId = latestId;
+        }
+        // Only start listening once lastId is positioned; the pump below catches up on the gap
+        if (closed) return;
+        unsubscribe = subscribeToCanvasEvents(() => void pump());
+        pollTimer = setInterval(() => void pump(), POLL_INTERVAL_MS);
+        await pump();
+      } catch (err) {
+        send(`event: stream_error\ndata: ${JSON.stringify({ message: err instanceof Error ? err.message : "Unknown error" })}\n\n`);
+        close();
+      }
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "content-type": "text/event-stream; charset=utf-8",
+      "cache-control": "no-cache, no-transform",
+      connection: "keep-alive",
+      "x-accel-buffering": "no",
+    },
+  });
+}
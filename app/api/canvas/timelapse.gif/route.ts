@@ -0,0 +1,45 @@
+import { parseTimestamp } from "@/lib/canvas";
+import { renderTimelapseGif } from "@/lib/timelapse";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+function badRequest(message: string) {
+  return new Response(JSON.stringify({ error: message }), {
+    status: 400,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+function parseNumberParam(value: string | null): number | undefined | null {
+  if (value === null || value.trim() === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+// GET /api/canvas/timelapse.gif?from=&to=&fps=&scale=&frames=
+// `from`/`to` accept epoch milliseconds or ISO 8601 dates
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const from = params.get("from");
+  const to = params.get("to");
+  const fromMs = from === null ? undefined : parseTimestamp(from);
+  const toMs = to === null ? undefined : parseTimestamp(to);
+  if ((from !== null && fromMs === undefined) || (to !== null && toMs === undefined)) {
+    return badRequest("from and to must be epoch milliseconds or ISO 8601 dates");
+  }
+  const fps = parseNumberParam(params.get("fps"));
+  const scale = parseNumberParam(params.get("scale"));
+  const frames = parseNumberParam(params.get("frames"));
+  if (fps === null || scale === null || frames === null) {
+    return badRequest("fps, scale and frames must be positive numbers");
+  }
+  try {
+    const gif = await renderTimelapseGif({ fromMs, toMs, fps, scale, frames });
+    return new Response(gif, {
+      headers: { "content-type": "image/gif", "cache-control": "no-store" },
+    });
+  } catch (err) {
+    return badRequest(err instanceof Error ? err.message : "Unknown error");
+  }
+}
@@ -0,0 +1,26 @@
+import { canvasExists, getCanvasEvents, parseCanvasEventQuery } from "@/lib/canvas";
+
+export const runtime = "nodejs";
+
+function errorResponse(status: number, message: string) {
+  return new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+// GET /api/canvases/:id/events returns a page of the canvas's own event log; it
+// takes the same query parameters as /api/canvas/events
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    if (!(await canvasExists(id))) return errorResponse(404, `Canvas "${id}" does not exist`);
+    const query = parseCanvasEventQuery(new URL(request.url).searchParams);
+    const page = await getCanvasEvents({ ...query, canvasId: id });
+    return new Response(JSON.stringify(page), {
+      headers: { "content-type": "application/json" },
+    });
+  } catch (err) {
+    return errorResponse(400, err instanceof Error ? err.message : "Invalid request");
+  }
+}
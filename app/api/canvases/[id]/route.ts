@@ -0,0 +1,35 @@
+import { canvasExists, getCanvas, getCanvasAt, parseTimestamp } from "@/lib/canvas";
+
+export const runtime = "nodejs";
+
+function errorResponse(status: number, message: string) {
+  return new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+// GET /api/canvases/:id, optionally `?at=` (epoch ms or ISO 8601) like /api/canvas
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    if (!(await canvasExists(id))) return errorResponse(404, `Canvas "${id}" does not exist`);
+  } catch (err) {
+    return errorResponse(400, err instanceof Error ? err.message : "Invalid canvas id");
+  }
+  const at = new URL(request.url).searchParams.get("at");
+  if (at !== null) {
+    const timestampMs = parseTimestamp(at);
+    if (timestampMs === undefined) {
+      return errorResponse(400, "at must be epoch milliseconds or an ISO 8601 date");
+    }
+    const state = await getCanvasAt(timestampMs, id);
+    return new Response(JSON.stringify(state), {
+      headers: { "content-type": "application/json" },
+    });
+  }
+  const state = await getCanvas(id);
+  return new Response(JSON.stringify(state), {
+    headers: { "content-type": "application/json" },
+  });
+}
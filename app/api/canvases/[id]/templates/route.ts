@@ -0,0 +1,36 @@
+import { canvasExists } from "@/lib/canvas";
+import { getTemplate, listTemplateProgress } from "@/lib/templates";
+
+export const runtime = "nodejs";
+
+function errorResponse(status: number, message: string) {
+  return new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+// GET /api/canvases/:id/templates, with the same `?name=` as /api/templates
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    if (!(await canvasExists(id))) return errorResponse(404, `Canvas "${id}" does not exist`);
+  } catch (err) {
+    return errorResponse(400, err instanceof Error ? err.message : "Invalid canvas id");
+  }
+  const name = new URL(request.url).searchParams.get("name");
+  if (name !== null) {
+    try {
+      const template = await getTemplate(name, id);
+      return new Response(JSON.stringify(template), {
+        headers: { "content-type": "application/json" },
+      });
+    } catch (err) {
+      return errorResponse(404, err instanceof Error ? err.message : "Template not found");
+    }
+  }
+  const templates = await listTemplateProgress(id);
+  return new Response(JSON.stringify({ templates }), {
+    headers: { "content-type": "application/json" },
+  });
+}
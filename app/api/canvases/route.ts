@@ -0,0 +1,11 @@
+import { listCanvases } from "@/lib/canvas";
+
+export const runtime = "nodejs";
+
+// GET /api/canvases lists every canvas with its size and palette
+export async function GET() {
+  const canvases = await listCanvases();
+  return new Response(JSON.stringify({ canvases }), {
+    headers: { "content-type": "application/json" },
+  });
+}
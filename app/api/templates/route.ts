@@ -0,0 +1,30 @@
+import { getTemplate, listTemplateProgress } from "@/lib/templates";
+
+export const runtime = "nodejs";
+
+function errorResponse(status: number, message: string) {
+  return new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+// GET /api/templates lists the default canvas's templates with their progress;
+// `?name=` returns one template including its pixels (for overlays)
+export async function GET(request: Request) {
+  const name = new URL(request.url).searchParams.get("name");
+  if (name !== null) {
+    try {
+      const template = await getTemplate(name);
+      return new Response(JSON.stringify(template), {
+        headers: { "content-type": "application/json" },
+      });
+    } catch (err) {
+      return errorResponse(404, err instanceof Error ? err.message : "Template not found");
+    }
+  }
+  const templates = await listTemplateProgress();
+  return new Response(JSON.stringify({ templates }), {
+    headers: { "content-type": "application/json" },
+  });
+}
@@ -1,13 +1,30 @@
-import { createMcpHandler } from "mcp-handler";
+import { createMcpHandler, withMcpAuth } from "mcp-handler";
 import { z } from "zod";
-import { getCanvas, setPixel, setPixels, type CanvasState, getCanvasEvents, logToolUsed } from "@/lib/canvas";
+import { getCanvas, setPixel, setPixels, type CanvasState, summarizePixelWrite, getCanvasEvents, DEFAULT_EVENT_PAGE_SIZE, MAX_EVENT_PAGE_SIZE, CANVAS_EVENT_TYPE_NAMES, logToolUsed, CooldownError, getCooldown, getPixelHistory, resetCanvas, resizeCanvas, setPalette, getCanvasAt, parseTimestamp, getRegion, MAX_REGION_CELLS, drawShape, MAX_SHAPE_PIXELS, undoLastBatch, revertRange, listCanvases, createCanvas, canvasExists, type ShapeSpec, type ToolName } from "@/lib/canvas";
+import { DEFAULT_CANVAS_ID } from "@/lib/canvas-store";
+import { identifyMcpCaller, type McpCallerInfo } from "@/lib/identity";
+import { registerCanvasPrompts } from "@/lib/mcp-prompts";
+import { registerCanvasResources } from "@/lib/mcp-resources";
+import { renderCanvasPng } from "@/lib/png";
+import { claimRegion, listRegions, releaseRegion, MAX_REGION_AREA, MAX_REGIONS_PER_OWNER } from "@/lib/regions";
+import { stampImage } from "@/lib/stamp";
+import { deleteTemplate, listTemplates, summarizeTemplate, templateDiff, templateProgress, uploadTemplate, DEFAULT_TEMPLATE_DIFF_LIMIT, MAX_TEMPLATE_AREA, MAX_TEMPLATE_DIFF_LIMIT, MAX_TEMPLATES_PER_OWNER } from "@/lib/templates";
+import { hasScope, isAuthEnabled, verifyApiKey, type ApiKeyScope } from "@/lib/auth";
 
 export const runtime = "nodejs";
 import { createUIResource } from "@mcp-ui/server";
 
-function renderCanvasHtml(state: CanvasState): string {
-    const metaJson = JSON.stringify(state.meta);
-    const pixelsBase64 = state.pixelsBase64;
+// JSON that is safe to inline in a <script> element
+function scriptJson(value: unknown): string {
+    return JSON.stringify(value).replace(/</g, "\\u003c");
+}
+
+// Interactive canvas for MCP-UI hosts: wheel or buttons to zoom, drag to pan, a
+// palette strip and hover coordinates. Clicking a cell paints it optimistically
+// and sends a `tool` action calling set_pixel; once the host answers, the UI
+// reloads the canvas through a get_canvas action. Hosts that don't answer
+// actions keep the optimistic pixel.
+function renderCanvasHtml(state: CanvasState, canvasId?: string): string {
     return `<!doctype html>
 <html>
   <head>
@@ -15,17 +32,34 @@ function renderCanvasHtml(state: CanvasState): string {
     <meta name="viewport" content="width=device-width, initial-scale=1" />
     <title>Canvas</title>
     <style>
-      :root { color-scheme: light dark; }
-      body { margin: 0; }
-      canvas { image-rendering: pixelated; display: block; }
+      :root { color-scheme: light dark; font: 12px system-ui, sans-serif; }
+      body { margin: 0; display: flex; flex-direction: column; gap: 6px; padding: 6px; box-sizing: border-box; }
+      #viewport { position: relative; height: 420px; overflow: hidden; border: 1px solid #8884; border-radius: 4px; background: repeating-conic-gradient(#8881 0 25%, transparent 0 50%) 0 0 / 16px 16px; }
+      #place { display: block; width: 100%; height: 100%; cursor: crosshair; touch-action: none; }
+      #palette { display: flex; flex-wrap: wrap; gap: 3px; }
+      #palette button { width: 18px; height: 18px; padding: 0; border: 1px solid #8886; border-radius: 3px; cursor: pointer; }
+      #palette button[aria-checked="true"] { outline: 2px solid #3b82f6; outline-offset: 1px; }
+      #bar { display: flex; gap: 8px; align-items: center; }
+      #bar button { font: inherit; padding: 1px 6px; cursor: pointer; }
+      #coords { font-family: ui-monospace, monospace; opacity: 0.7; }
+      #status { color: #dc2626; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
     </style>
   </head>
   <body>
-    <canvas id="place"></canvas>
+    <div id="viewport"><canvas id="place"></canvas></div>
+    <div id="palette" role="radiogroup" aria-label="Paint color"></div>
+    <div id="bar">
+      <button id="zoom-in" title="Zoom in">+</button>
+      <button id="zoom-out" title="Zoom out">−</button>
+      <button id="fit" title="Fit the canvas">Fit</button>
+      <span id="coords"></span>
+      <span id="status"></span>
+    </div>
     <script>
-      const META = ${metaJson};
-      const PIXELS_BASE64 = ${JSON.stringify(pixelsBase64)};
-      const SCALE = 8;
+      const CANVAS_ID = ${scriptJson(canvasId ?? null)};
+      let meta = ${scriptJson(state.meta)};
+      let pixels = b64ToBytes(${scriptJson(state.pixelsBase64)});
+      let selected = Math.min(1, meta.palette.length - 1);
 
       function b64ToBytes(b64) {
         const bin = atob(b64);
@@ -34,39 +68,285 @@ function renderCanvasHtml(state: CanvasState): string {
         return arr;
       }
 
-      const pixels = b64ToBytes(PIXELS_BASE64);
-
+      const viewport = document.getElementById('viewport');
       const canvas = document.getElementById('place');
       const ctx = canvas.getContext('2d');
-      canvas.width = META.width * SCALE;
-      canvas.height = META.height * SCALE;
-      ctx.imageSmoothingEnabled = false;
-
-      for (let y = 0; y < META.height; y++) {
-        for (let x = 0; x < META.width; x++) {
-          const idx = y * META.width + x;
-          const cIdx = pixels[idx] || 0;
-          ctx.fillStyle = META.palette[cIdx] || '#000';
-          ctx.fillRect(x * SCALE, y * SCALE, SCALE, SCALE);
+      const coords = document.getElementById('coords');
+      const status = document.getElementById('status');
+
+      // One canvas pixel per cell; the visible canvas draws it zoomed and panned
+      const bitmap = document.createElement('canvas');
+      const bitmapCtx = bitmap.getContext('2d');
+      let zoom = 1;
+      let panX = 0;
+      let panY = 0;
+
+      function paintCell(x, y) {
+        bitmapCtx.fillStyle = meta.palette[pixels[y * meta.width + x]] || '#000';
+        bitmapCtx.fillRect(x, y, 1, 1);
+      }
+
+      function renderBitmap() {
+        bitmap.width = meta.width;
+        bitmap.height = meta.height;
+        for (let y = 0; y < meta.height; y++) {
+          for (let x = 0; x < meta.width; x++) paintCell(x, y);
         }
       }
+
+      function draw() {
+        const ratio = window.devicePixelRatio || 1;
+        const width = viewport.clientWidth;
+        const height = viewport.clientHeight;
+        if (canvas.width !== Math.round(width * ratio) || canvas.height !== Math.round(height * ratio)) {
+          canvas.width = Math.round(width * ratio);
+          canvas.height = Math.round(height * ratio);
+        }
+        ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+        ctx.clearRect(0, 0, width, height);
+        ctx.imageSmoothingEnabled = false;
+        ctx.drawImage(bitmap, panX, panY, meta.width * zoom, meta.height * zoom);
+      }
+
+      function fit() {
+        zoom = Math.max(1, Math.floor(Math.min(viewport.clientWidth / meta.width, viewport.clientHeight / meta.height)));
+        panX = Math.round((viewport.clientWidth - meta.width * zoom) / 2);
+        panY = Math.round((viewport.clientHeight - meta.height * zoom) / 2);
+        draw();
+      }
+
+      // Zooms by a factor while keeping the canvas point under (cx, cy) in place
+      function zoomAt(factor, cx, cy) {
+        const next = Math.min(64, Math.max(0.25, zoom * factor));
+        panX = cx - ((cx - panX) * next) / zoom;
+        panY = cy - ((cy - panY) * next) / zoom;
+        zoom = next;
+        draw();
+      }
+
+      function cellAt(clientX, clientY) {
+        const rect = canvas.getBoundingClientRect();
+        const x = Math.floor((clientX - rect.left - panX) / zoom);
+        const y = Math.floor((clientY - rect.top - panY) / zoom);
+        return x >= 0 && y >= 0 && x < meta.width && y < meta.height ? { x, y } : null;
+      }
+
+      function renderPalette() {
+        const strip = document.getElementById('palette');
+        strip.replaceChildren();
+        meta.palette.forEach((color, index) => {
+          const button = document.createElement('button');
+          button.style.backgroundColor = color;
+          button.title = color;
+          button.setAttribute('role', 'radio');
+          button.setAttribute('aria-label', 'Color ' + color);
+          button.setAttribute('aria-checked', String(index === selected));
+          button.addEventListener('click', () => {
+            selected = index;
+            renderPalette();
+          });
+          strip.appendChild(button);
+        });
+      }
+
+      // Actions with a messageId get a ui-message-response from the host
+      const pending = new Map();
+      let nextMessageId = 1;
+      function callTool(toolName, params, onResponse) {
+        const messageId = 'place-' + nextMessageId++;
+        if (CANVAS_ID) params.canvasId = CANVAS_ID;
+        pending.set(messageId, onResponse);
+        window.parent.postMessage({ type: 'tool', payload: { toolName, params }, messageId }, '*');
+      }
+
+      // Tool results arrive as MCP CallToolResults; the tools answer with JSON text
+      function readToolResult(payload) {
+        if (!payload || payload.error) throw new Error(String((payload && payload.error) || 'Tool call failed'));
+        const result = payload.response;
+        const text = result && result.content && result.content[0] && result.content[0].text;
+        if (result && result.isError) throw new Error(text || 'Tool call failed');
+        return text ? JSON.parse(text) : null;
+      }
+
+      window.addEventListener('message', (event) => {
+        const message = event.data;
+        if (!message || message.type !== 'ui-message-response' || !pending.has(message.messageId)) return;
+        const onResponse = pending.get(message.messageId);
+        pending.delete(message.messageId);
+        onResponse(message.payload);
+      });
+
+      function refresh() {
+        callTool('get_canvas', { format: 'json' }, (payload) => {
+          try {
+            const state = readToolResult(payload);
+            if (!state || !state.meta) return;
+            meta = state.meta;
+            pixels = b64ToBytes(state.pixelsBase64);
+            selected = Math.min(selected, meta.palette.length - 1);
+            renderBitmap();
+            renderPalette();
+            draw();
+          } catch (err) {
+            status.textContent = err.message;
+          }
+        });
+      }
+
+      function paint(x, y) {
+        const color = meta.palette[selected];
+        const offset = y * meta.width + x;
+        const previous = pixels[offset];
+        if (color === undefined || previous === selected) return;
+        const colorIndex = selected;
+        pixels[offset] = colorIndex;
+        paintCell(x, y);
+        draw();
+        status.textContent = '';
+        callTool('set_pixel', { x, y, color }, (payload) => {
+          try {
+            readToolResult(payload);
+          } catch (err) {
+            let message = err.message;
+            try {
+              const parsed = JSON.parse(message);
+              if (parsed.error === 'cooldown') message = 'Cooldown: try again in ' + Math.ceil(parsed.retryAfterMs / 1000) + 's';
+              else if (parsed.message) message = parsed.message;
+            } catch {}
+            if (pixels[offset] === colorIndex) {
+              pixels[offset] = previous;
+              paintCell(x, y);
+              draw();
+            }
+            status.textContent = message;
+          }
+          refresh();
+        });
+      }
+
+      // A press that moves less than a few pixels is a click; otherwise it pans
+      let drag = null;
+      canvas.addEventListener('pointerdown', (e) => {
+        drag = { startX: e.clientX, startY: e.clientY, panX, panY, moved: false };
+        canvas.setPointerCapture(e.pointerId);
+      });
+      canvas.addEventListener('pointermove', (e) => {
+        const cell = cellAt(e.clientX, e.clientY);
+        coords.textContent = cell ? '(' + cell.x + ', ' + cell.y + ')' : meta.width + '×' + meta.height;
+        if (!drag) return;
+        const dx = e.clientX - drag.startX;
+        const dy = e.clientY - drag.startY;
+        if (!drag.moved && Math.abs(dx) + Math.abs(dy) < 4) return;
+        drag.moved = true;
+        canvas.style.cursor = 'grabbing';
+        panX = drag.panX + dx;
+        panY = drag.panY + dy;
+        draw();
+      });
+      canvas.addEventListener('pointerup', (e) => {
+        if (drag && !drag.moved) {
+          const cell = cellAt(e.clientX, e.clientY);
+          if (cell) paint(cell.x, cell.y);
+        }
+        drag = null;
+        canvas.style.cursor = '';
+      });
+      canvas.addEventListener('pointerleave', () => {
+        if (!drag) coords.textContent = meta.width + '×' + meta.height;
+      });
+      canvas.addEventListener('wheel', (e) => {
+        e.preventDefault();
+        const rect = canvas.getBoundingClientRect();
+        zoomAt(e.deltaY < 0 ? 1.25 : 0.8, e.clientX - rect.left, e.clientY - rect.top);
+      }, { passive: false });
+      document.getElementById('zoom-in').addEventListener('click', () => zoomAt(1.5, viewport.clientWidth / 2, viewport.clientHeight / 2));
+      document.getElementById('zoom-out').addEventListener('click', () => zoomAt(1 / 1.5, viewport.clientWidth / 2, viewport.clientHeight / 2));
+      document.getElementById('fit').addEventListener('click', fit);
+      new ResizeObserver(draw).observe(viewport);
+
+      renderBitmap();
+      renderPalette();
+      coords.textContent = meta.width + '×' + meta.height;
+      fit();
+      window.parent.postMessage({ type: 'ui-size-change', payload: { height: document.documentElement.scrollHeight } }, '*');
     </script>
   </body>
 </html>`;
 }
 
-const handler = createMcpHandler(
+function cooldownErrorResult(err: CooldownError) {
+    const payload = {
+        error: "cooldown",
+        message: err.message,
+        requested: err.requested,
+        retryAtMs: err.retryAtMs,
+        retryAfterMs: Math.max(0, err.retryAtMs - Date.now()),
+        cooldown: err.status,
+    };
+    return { isError: true, content: [{ type: 'text' as const, text: JSON.stringify(payload) }] };
+}
+
+function forbiddenResult(scope: ApiKeyScope) {
+    const payload = {
+        error: "forbidden",
+        message: `This tool requires an API key with the "${scope}" scope`,
+        requiredScope: scope,
+    };
+    return { isError: true, content: [{ type: 'text' as const, text: JSON.stringify(payload) }] };
+}
+
+// Every tool works on the default canvas unless it is given another one
+const canvasIdArg = z.string().max(64).optional().describe(`Canvas to work on (default "${DEFAULT_CANVAS_ID}", see list_canvases)`);
+
+// Shared body of the drawing tools; responses carry the metadata and a summary
+// instead of the full state, since shapes can cover thousands of pixels
+async function drawToolResult(
+    toolName: ToolName,
+    args: Record<string, unknown>,
+    shape: ShapeSpec,
+    color: string,
+    canvasId: string | undefined,
+    extra: McpCallerInfo & { authInfo?: { clientId: string; scopes: string[] } }
+) {
+    if (!hasScope(extra.authInfo, "paint")) return forbiddenResult("paint");
+    const clientId = identifyMcpCaller(extra);
+    await logToolUsed(toolName, args, clientId, canvasId);
+    try {
+        const { state, applied, skipped, rejected } = await drawShape({ shape, color, source: "mcp", clientId, canvasId });
+        const summary = {
+            meta: state.meta,
+            pixelCount: applied.length,
+            skipped: skipped.length,
+            rejected: rejected.length,
+            color: applied[0]?.color,
+            colorIndex: applied[0]?.colorIndex,
+        };
+        return { content: [{ type: 'text' as const, text: JSON.stringify(summary) }] };
+    } catch (err) {
+        if (err instanceof CooldownError) return cooldownErrorResult(err);
+        throw err;
+    }
+}
+
+const mcpHandler = createMcpHandler(
     (server) => {
         server.tool(
             "get_canvas",
-            "Render the current canvas in an embedded UI or return JSON state",
-            { showUI: z.boolean().optional().default(false) },
-            async (args) => {
-                await logToolUsed("get_canvas", args);
-                const state = await getCanvas();
-                if (args.showUI) {
-                    const html = renderCanvasHtml(state);
-                    const uri = (`ui://place`) as `ui://${string}`;
+            "Return the current canvas as JSON state, an embedded HTML UI, or a PNG image (format \"png\", optionally scaled)",
+            {
+                format: z.enum(["json", "html", "png"]).optional(),
+                // Kept for older clients; same as format "html"
+                showUI: z.boolean().optional().default(false),
+                scale: z.number().int().positive().max(64).optional(),
+                canvasId: canvasIdArg,
+            },
+            async (args, extra) => {
+                await logToolUsed("get_canvas", args, identifyMcpCaller(extra), args.canvasId);
+                const state = await getCanvas(args.canvasId);
+                const format = args.format ?? (args.showUI ? "html" : "json");
+                if (format === "html") {
+                    const html = renderCanvasHtml(state, args.canvasId);
+                    const uri = (args.canvasId ? `ui://place/${args.canvasId}` : `ui://place`) as `ui://${string}`;
                     const resource = createUIResource({
                         uri,
                         content: { type: 'rawHtml', htmlString: html },
@@ -74,29 +354,85 @@ const handler = createMcpHandler(
                     });
                     return { content: [resource] } as const;
                 }
+                if (format === "png") {
+                    // Default to roughly 512px on the long side so small canvases stay legible
+                    const scale = args.scale ?? Math.max(1, Math.floor(512 / Math.max(state.meta.width, state.meta.height)));
+                    const png = renderCanvasPng(state, scale);
+                    return {
+                        content: [{ type: 'image', data: Buffer.from(png).toString("base64"), mimeType: "image/png" }],
+                    } as const;
+                }
                 return { content: [{ type: 'text', text: JSON.stringify(state) }] } as const;
             }
         );
 
         server.tool(
-            "set_pixel",
-            "Set a single pixel to a palette color index",
+            "get_canvas_at",
+            "Reconstruct the canvas as it was at a point in time (epoch milliseconds or an ISO 8601 date) from the event log",
+            { at: z.union([z.number(), z.string()]), canvasId: canvasIdArg },
+            async (args, extra) => {
+                await logToolUsed("get_canvas_at", args, identifyMcpCaller(extra), args.canvasId);
+                const timestampMs = parseTimestamp(args.at);
+                if (timestampMs === undefined) {
+                    return { isError: true, content: [{ type: 'text' as const, text: `Invalid timestamp: ${args.at}` }] };
+                }
+                const state = await getCanvasAt(timestampMs, args.canvasId);
+                return { content: [{ type: 'text', text: JSON.stringify({ at: timestampMs, ...state }) }] } as const;
+            }
+        );
+
+        server.tool(
+            "get_region",
+            `Read a rectangle of the canvas (at most ${MAX_REGION_CELLS} cells) as rows of hex colors, palette indices, or run-length [colorIndex, length] pairs`,
             {
                 x: z.number().int().min(0),
                 y: z.number().int().min(0),
-                color: z.string().default("#000000")
+                w: z.number().int().positive(),
+                h: z.number().int().positive(),
+                format: z.enum(["hex", "index", "rle"]).optional().default("hex"),
+                canvasId: canvasIdArg,
+            },
+            async (args, extra) => {
+                await logToolUsed("get_region", args, identifyMcpCaller(extra), args.canvasId);
+                try {
+                    const region = await getRegion({ x: args.x, y: args.y, width: args.w, height: args.h, format: args.format, canvasId: args.canvasId });
+                    return { content: [{ type: 'text', text: JSON.stringify(region) }] } as const;
+                } catch (err) {
+                    return { isError: true, content: [{ type: 'text' as const, text: err instanceof Error ? err.message : String(err) }] };
+                }
+            }
+        );
 
+        server.tool(
+            "set_pixel",
+            "Set a single pixel to a color. The response reports the pixel under `applied` (with the palette index used) or `skipped` (it already had that color), plus the canvas metadata (requires the paint scope when auth is enabled)",
+            {
+                x: z.number().int().min(0),
+                y: z.number().int().min(0),
+                color: z.string().default("#000000"),
+                canvasId: canvasIdArg,
             },
-            async ({ x, y, color }) => {
-                await logToolUsed("set_pixel", { x, y, color });
-                const updated = await setPixel({ x, y, color, source: "mcp" });
-                return { content: [{ type: 'text', text: JSON.stringify(updated) }] } as const;
+            async ({ x, y, color, canvasId }, extra) => {
+                if (!hasScope(extra.authInfo, "paint")) return forbiddenResult("paint");
+                const clientId = identifyMcpCaller(extra);
+                await logToolUsed("set_pixel", { x, y, color, canvasId }, clientId, canvasId);
+                try {
+                    // `applied` reports the palette index used, which may differ from the requested color
+                    const result = await setPixel({ x, y, color, source: "mcp", clientId, canvasId });
+                    return { content: [{ type: 'text', text: JSON.stringify(summarizePixelWrite(result)) }] } as const;
+                } catch (err) {
+                    if (err instanceof CooldownError) return cooldownErrorResult(err);
+                    throw err;
+                }
             }
         );
 
         server.tool(
             "set_pixels",
-            "Set multiple pixels in one call",
+            "Set multiple pixels in one call (requires the paint scope when auth is enabled; subject to the per-call and per-window pixel limits, see get_cooldown). " +
+            "The response lists every update as `applied`, `skipped` (already that color, or set again later in the batch) or `rejected`, each with a `code` and `reason`. " +
+            "Without `partial`, one out-of-bounds or unusable color fails the whole call; with it, only that update is rejected. Pixels in protected regions are always rejected individually. " +
+            "`dryRun` reports what would happen, including all conflicts and your cooldown, without writing anything",
             {
                 updates: z.array(
                     z.object({
@@ -105,25 +441,529 @@ const handler = createMcpHandler(
                         color: z.string().default("#000000"),
                     })
                 ).min(1),
+                partial: z.boolean().optional().default(false).describe("Write the valid updates even if others are rejected"),
+                dryRun: z.boolean().optional().default(false).describe("Validate and report without writing"),
+                canvasId: canvasIdArg,
+            },
+            async ({ updates, partial, dryRun, canvasId }, extra) => {
+                if (!hasScope(extra.authInfo, "paint")) return forbiddenResult("paint");
+                const clientId = identifyMcpCaller(extra);
+                await logToolUsed("set_pixels", { updates, partial, dryRun, canvasId }, clientId, canvasId);
+                try {
+                    const result = await setPixels({ updates, partial, dryRun, source: "mcp", clientId, canvasId });
+                    const summary = summarizePixelWrite(result);
+                    if (dryRun) {
+                        return { content: [{ type: 'text', text: JSON.stringify({ ...summary, cooldown: await getCooldown(clientId) }) }] } as const;
+                    }
+                    return { content: [{ type: 'text', text: JSON.stringify(summary) }] } as const;
+                } catch (err) {
+                    if (err instanceof CooldownError) return cooldownErrorResult(err);
+                    throw err;
+                }
+            }
+        );
+
+        const drawLimits = `at most ${MAX_SHAPE_PIXELS} pixels, counted against the per-call and per-window pixel limits`;
+
+        server.tool(
+            "draw_line",
+            `Draw a straight line between two points (inclusive) in one color; parts outside the canvas are clipped (${drawLimits})`,
+            {
+                x0: z.number().int(),
+                y0: z.number().int(),
+                x1: z.number().int(),
+                y1: z.number().int(),
+                color: z.string().default("#000000"),
+                canvasId: canvasIdArg,
+            },
+            async (args, extra) => {
+                const { color, canvasId, ...line } = args;
+                return drawToolResult("draw_line", args, { kind: "line", ...line }, color, canvasId, extra);
+            }
+        );
+
+        server.tool(
+            "draw_rect",
+            `Draw a filled or outlined rectangle with its top-left corner at (x, y) (${drawLimits})`,
+            {
+                x: z.number().int(),
+                y: z.number().int(),
+                width: z.number().int().positive(),
+                height: z.number().int().positive(),
+                filled: z.boolean().optional().default(false),
+                color: z.string().default("#000000"),
+                canvasId: canvasIdArg,
+            },
+            async (args, extra) => {
+                const { color, canvasId, ...rect } = args;
+                return drawToolResult("draw_rect", args, { kind: "rect", ...rect }, color, canvasId, extra);
+            }
+        );
+
+        server.tool(
+            "draw_circle",
+            `Draw a filled or outlined circle around (cx, cy) (${drawLimits})`,
+            {
+                cx: z.number().int(),
+                cy: z.number().int(),
+                radius: z.number().int().min(0),
+                filled: z.boolean().optional().default(false),
+                color: z.string().default("#000000"),
+                canvasId: canvasIdArg,
+            },
+            async (args, extra) => {
+                const { color, canvasId, ...circle } = args;
+                return drawToolResult("draw_circle", args, { kind: "circle", ...circle }, color, canvasId, extra);
+            }
+        );
+
+        server.tool(
+            "flood_fill",
+            `Fill the area of same-colored pixels connected to (x, y) (${drawLimits})`,
+            {
+                x: z.number().int().min(0),
+                y: z.number().int().min(0),
+                color: z.string().default("#000000"),
+                canvasId: canvasIdArg,
+            },
+            async (args, extra) => {
+                const { color, canvasId, ...seed } = args;
+                return drawToolResult("flood_fill", args, { kind: "flood_fill", ...seed }, color, canvasId, extra);
+            }
+        );
+
+        server.tool(
+            "draw_text",
+            `Write text in a built-in 5x7 pixel font with its top-left corner at (x, y); letters are uppercase, \\n starts a new line and scale enlarges each font pixel (${drawLimits})`,
+            {
+                x: z.number().int(),
+                y: z.number().int(),
+                text: z.string().min(1).max(256),
+                scale: z.number().int().min(1).max(16).optional().default(1),
+                color: z.string().default("#000000"),
+                canvasId: canvasIdArg,
             },
-            async ({ updates }) => {
-                await logToolUsed("set_pixels", { updates });
-                const updated = await setPixels({ updates, source: "mcp" });
-                return { content: [{ type: 'text', text: JSON.stringify(updated) }] } as const;
+            async (args, extra) => {
+                const { color, canvasId, ...text } = args;
+                return drawToolResult("draw_text", args, { kind: "text", ...text }, color, canvasId, extra);
+            }
+        );
+
+        server.tool(
+            "stamp_image",
+            `Place an image with its top-left corner at (x, y): either \`png\` (base64 PNG) or \`grid\` (rows of CSS colors, null for transparent). The image is scaled by \`scale\`, snapped to the nearest palette colors (optionally with Floyd–Steinberg dithering) and painted in one batch; transparent pixels are skipped (${drawLimits})`,
+            {
+                png: z.string().max(4_000_000).optional(),
+                grid: z.array(z.array(z.string().nullable()).max(1024)).max(1024).optional(),
+                x: z.number().int(),
+                y: z.number().int(),
+                scale: z.number().positive().max(64).optional().default(1),
+                dither: z.boolean().optional().default(false),
+                canvasId: canvasIdArg,
+            },
+            async (args, extra) => {
+                if (!hasScope(extra.authInfo, "paint")) return forbiddenResult("paint");
+                const clientId = identifyMcpCaller(extra);
+                // Log the arguments without the image payload
+                await logToolUsed("stamp_image", { ...args, png: args.png && `<${args.png.length} base64 chars>` }, clientId, args.canvasId);
+                if ((args.png === undefined) === (args.grid === undefined)) {
+                    return { isError: true, content: [{ type: 'text' as const, text: "Pass exactly one of `png` or `grid`" }] };
+                }
+                const image = args.png !== undefined ? { pngBase64: args.png } : { grid: args.grid! };
+                try {
+                    const { state, applied, skipped, rejected, width, height, transparent, clipped } = await stampImage({
+                        image,
+                        x: args.x,
+                        y: args.y,
+                        scale: args.scale,
+                        dither: args.dither,
+                        source: "mcp",
+                        clientId,
+                        canvasId: args.canvasId,
+                    });
+                    const summary = { meta: state.meta, pixelCount: applied.length, skipped: skipped.length, rejected: rejected.length, width, height, transparent, clipped };
+                    return { content: [{ type: 'text' as const, text: JSON.stringify(summary) }] };
+                } catch (err) {
+                    if (err instanceof CooldownError) return cooldownErrorResult(err);
+                    throw err;
+                }
+            }
+        );
+
+        server.tool(
+            "undo",
+            "Revert the caller's most recent batch of pixel writes that hasn't been undone yet; pixels others painted over since are left alone (requires the paint scope when auth is enabled)",
+            { canvasId: canvasIdArg },
+            async ({ canvasId }, extra) => {
+                if (!hasScope(extra.authInfo, "paint")) return forbiddenResult("paint");
+                const clientId = identifyMcpCaller(extra);
+                await logToolUsed("undo", { canvasId }, clientId, canvasId);
+                try {
+                    const { state, ...result } = await undoLastBatch({ clientId, source: "mcp", canvasId });
+                    return { content: [{ type: 'text' as const, text: JSON.stringify({ meta: state.meta, ...result }) }] };
+                } catch (err) {
+                    return { isError: true, content: [{ type: 'text' as const, text: err instanceof Error ? err.message : String(err) }] };
+                }
+            }
+        );
+
+        server.tool(
+            "claim_region",
+            `Reserve a named rectangle. Mode "owner-only" (default) lets only the caller paint it, "locked" freezes it for everyone, "open" just labels it. Claiming an existing name you own updates it; regions are limited to ${MAX_REGION_AREA} pixels and ${MAX_REGIONS_PER_OWNER} per client and may not overlap other clients' restricted regions (admins are exempt)`,
+            {
+                name: z.string().min(1).max(64),
+                x: z.number().int().min(0),
+                y: z.number().int().min(0),
+                width: z.number().int().positive(),
+                height: z.number().int().positive(),
+                mode: z.enum(["locked", "owner-only", "open"]).optional().default("owner-only"),
+                canvasId: canvasIdArg,
+            },
+            async (args, extra) => {
+                if (!hasScope(extra.authInfo, "paint")) return forbiddenResult("paint");
+                const clientId = identifyMcpCaller(extra);
+                await logToolUsed("claim_region", args, clientId, args.canvasId);
+                try {
+                    const region = await claimRegion({ ...args, owner: clientId, admin: hasScope(extra.authInfo, "admin") });
+                    return { content: [{ type: 'text' as const, text: JSON.stringify(region) }] };
+                } catch (err) {
+                    return { isError: true, content: [{ type: 'text' as const, text: err instanceof Error ? err.message : String(err) }] };
+                }
+            }
+        );
+
+        server.tool(
+            "list_regions",
+            "List the claimed regions with their owner and mode",
+            { canvasId: canvasIdArg },
+            async ({ canvasId }, extra) => {
+                await logToolUsed("list_regions", { canvasId }, identifyMcpCaller(extra), canvasId);
+                const regions = await listRegions(canvasId);
+                return { content: [{ type: 'text', text: JSON.stringify(regions) }] } as const;
+            }
+        );
+
+        server.tool(
+            "release_region",
+            "Release a region you own (admins may release any region)",
+            { name: z.string().min(1).max(64), canvasId: canvasIdArg },
+            async (args, extra) => {
+                if (!hasScope(extra.authInfo, "paint")) return forbiddenResult("paint");
+                const clientId = identifyMcpCaller(extra);
+                await logToolUsed("release_region", args, clientId, args.canvasId);
+                try {
+                    const region = await releaseRegion({
+                        name: args.name,
+                        owner: clientId,
+                        admin: hasScope(extra.authInfo, "admin"),
+                        canvasId: args.canvasId,
+                    });
+                    return { content: [{ type: 'text' as const, text: JSON.stringify({ released: region }) }] };
+                } catch (err) {
+                    return { isError: true, content: [{ type: 'text' as const, text: err instanceof Error ? err.message : String(err) }] };
+                }
+            }
+        );
+
+        server.tool(
+            "upload_template",
+            `Pin a target design (\`png\` as base64 or \`grid\` of CSS colors, null for transparent) as a named template with its top-left corner at (x, y). It is scaled and snapped to the palette like stamp_image but nothing is painted; use template_diff to see what's left to draw. Uploading an existing name you own replaces it; templates are limited to ${MAX_TEMPLATE_AREA} pixels and ${MAX_TEMPLATES_PER_OWNER} per client (admins are exempt)`,
+            {
+                name: z.string().min(1).max(64),
+                png: z.string().max(4_000_000).optional(),
+                grid: z.array(z.array(z.string().nullable()).max(1024)).max(1024).optional(),
+                x: z.number().int().min(0),
+                y: z.number().int().min(0),
+                scale: z.number().positive().max(64).optional().default(1),
+                dither: z.boolean().optional().default(false),
+                canvasId: canvasIdArg,
+            },
+            async (args, extra) => {
+                if (!hasScope(extra.authInfo, "paint")) return forbiddenResult("paint");
+                const clientId = identifyMcpCaller(extra);
+                // Log the arguments without the image payload
+                await logToolUsed("upload_template", { ...args, png: args.png && `<${args.png.length} base64 chars>` }, clientId, args.canvasId);
+                if ((args.png === undefined) === (args.grid === undefined)) {
+                    return { isError: true, content: [{ type: 'text' as const, text: "Pass exactly one of `png` or `grid`" }] };
+                }
+                try {
+                    const template = await uploadTemplate({
+                        name: args.name,
+                        image: args.png !== undefined ? { pngBase64: args.png } : { grid: args.grid! },
+                        x: args.x,
+                        y: args.y,
+                        scale: args.scale,
+                        dither: args.dither,
+                        owner: clientId,
+                        admin: hasScope(extra.authInfo, "admin"),
+                        canvasId: args.canvasId,
+                    });
+                    return { content: [{ type: 'text' as const, text: JSON.stringify(summarizeTemplate(template)) }] };
+                } catch (err) {
+                    return { isError: true, content: [{ type: 'text' as const, text: err instanceof Error ? err.message : String(err) }] };
+                }
+            }
+        );
+
+        server.tool(
+            "list_templates",
+            "List the templates pinned on the canvas with their position, size, colors and owner",
+            { canvasId: canvasIdArg },
+            async ({ canvasId }, extra) => {
+                await logToolUsed("list_templates", { canvasId }, identifyMcpCaller(extra), canvasId);
+                const templates = await listTemplates(canvasId);
+                return { content: [{ type: 'text', text: JSON.stringify(templates.map(summarizeTemplate)) }] } as const;
+            }
+        );
+
+        server.tool(
+            "delete_template",
+            "Delete a template you uploaded (admins may delete any template)",
+            { name: z.string().min(1).max(64), canvasId: canvasIdArg },
+            async (args, extra) => {
+                if (!hasScope(extra.authInfo, "paint")) return forbiddenResult("paint");
+                const clientId = identifyMcpCaller(extra);
+                await logToolUsed("delete_template", args, clientId, args.canvasId);
+                try {
+                    const template = await deleteTemplate({
+                        name: args.name,
+                        owner: clientId,
+                        admin: hasScope(extra.authInfo, "admin"),
+                        canvasId: args.canvasId,
+                    });
+                    return { content: [{ type: 'text' as const, text: JSON.stringify({ deleted: summarizeTemplate(template) }) }] };
+                } catch (err) {
+                    return { isError: true, content: [{ type: 'text' as const, text: err instanceof Error ? err.message : String(err) }] };
+                }
+            }
+        );
+
+        server.tool(
+            "template_diff",
+            "List the canvas pixels that differ from a template as { x, y, color, currentColor, priority }, ready to pass to set_pixels. Pixels whose neighbors already match (damage to finished art) come first; also reports total, correct and remaining counts",
+            {
+                name: z.string().min(1).max(64),
+                limit: z.number().int().positive().max(MAX_TEMPLATE_DIFF_LIMIT).optional().describe(`Pixels to return (default ${DEFAULT_TEMPLATE_DIFF_LIMIT})`),
+                canvasId: canvasIdArg,
+            },
+            async (args, extra) => {
+                await logToolUsed("template_diff", args, identifyMcpCaller(extra), args.canvasId);
+                try {
+                    const diff = await templateDiff(args);
+                    return { content: [{ type: 'text' as const, text: JSON.stringify(diff) }] };
+                } catch (err) {
+                    return { isError: true, content: [{ type: 'text' as const, text: err instanceof Error ? err.message : String(err) }] };
+                }
+            }
+        );
+
+        server.tool(
+            "template_progress",
+            "Report how much of a template is done: total, correct and remaining pixels and the percent complete",
+            { name: z.string().min(1).max(64), canvasId: canvasIdArg },
+            async (args, extra) => {
+                await logToolUsed("template_progress", args, identifyMcpCaller(extra), args.canvasId);
+                try {
+                    const progress = await templateProgress(args);
+                    return { content: [{ type: 'text' as const, text: JSON.stringify(progress) }] };
+                } catch (err) {
+                    return { isError: true, content: [{ type: 'text' as const, text: err instanceof Error ? err.message : String(err) }] };
+                }
             }
         );
 
         server.tool(
             "get_events",
-            "Get pixel-set events for replay",
-            { limit: z.number().int().positive().optional() },
-            async ({ limit }) => {
-                await logToolUsed("get_events", { limit });
-                const events = await getCanvasEvents({ limit });
-                return { content: [{ type: 'text', text: JSON.stringify(events) }] } as const;
+            "Get a page of logged events (oldest first), optionally filtered. Returns { events, nextCursor, firstEventId, latestEventId }; pass nextCursor as `before` (or `after`, if you paged forward) to continue. Events older than firstEventId were compacted into snapshots.",
+            {
+                limit: z.number().int().positive().max(MAX_EVENT_PAGE_SIZE).optional().describe(`Events per page (default ${DEFAULT_EVENT_PAGE_SIZE})`),
+                before: z.number().int().min(-1).optional().describe("Page backwards from this event id (default: the newest event)"),
+                after: z.number().int().min(-1).optional().describe("Page forwards from this event id; -1 starts at the oldest event"),
+                types: z.array(z.enum(CANVAS_EVENT_TYPE_NAMES)).optional().describe("Only these event types"),
+                sources: z.array(z.enum(["mcp", "api", "script", "system"])).optional().describe("Only pixel writes from these sources"),
+                tools: z.array(z.string()).optional().describe("Only tool_used events for these tools"),
+                clientId: z.string().optional().describe("Only events by this client"),
+                from: z.union([z.number(), z.string()]).optional().describe("Earliest time (epoch ms or ISO 8601)"),
+                to: z.union([z.number(), z.string()]).optional().describe("Latest time (epoch ms or ISO 8601)"),
+                region: z.object({
+                    x: z.number().int(),
+                    y: z.number().int(),
+                    width: z.number().int().positive(),
+                    height: z.number().int().positive(),
+                }).optional().describe("Only pixel_set events inside this rectangle"),
+                canvasId: canvasIdArg,
+            },
+            async (args, extra) => {
+                const { limit, before, after, types, sources, tools, clientId, from, to, region, canvasId } = args;
+                await logToolUsed("get_events", args, identifyMcpCaller(extra), canvasId);
+                try {
+                    if (!(await canvasExists(canvasId))) {
+                        return { isError: true, content: [{ type: 'text' as const, text: `Canvas "${canvasId}" does not exist` }] };
+                    }
+                    const fromMs = from === undefined ? undefined : parseTimestamp(from);
+                    const toMs = to === undefined ? undefined : parseTimestamp(to);
+                    if ((from !== undefined && fromMs === undefined) || (to !== undefined && toMs === undefined)) {
+                        return { isError: true, content: [{ type: 'text' as const, text: "from and to must be epoch milliseconds or ISO 8601 dates" }] };
+                    }
+                    const filter = { types, sources, tools, clientId, fromMs, toMs, region };
+                    const page = await getCanvasEvents({ limit, before, after, filter, canvasId });
+                    return { content: [{ type: 'text', text: JSON.stringify(page) }] } as const;
+                } catch (err) {
+                    return { isError: true, content: [{ type: 'text' as const, text: err instanceof Error ? err.message : String(err) }] };
+                }
             }
         );
 
+        server.tool(
+            "get_cooldown",
+            "Report the caller's remaining pixel budget and when it refills (the budget is shared by all canvases)",
+            { canvasId: canvasIdArg },
+            async ({ canvasId }, extra) => {
+                const clientId = identifyMcpCaller(extra);
+                await logToolUsed("get_cooldown", { canvasId }, clientId, canvasId);
+                const status = await getCooldown(clientId);
+                return { content: [{ type: 'text', text: JSON.stringify(status) }] } as const;
+            }
+        );
+
+        server.tool(
+            "who_painted",
+            "Show who painted a pixel: its current color, recent writes (newest first) and their authors. Only recent events are searched; truncated is true when older ones were not",
+            {
+                x: z.number().int().min(0),
+                y: z.number().int().min(0),
+                limit: z.number().int().positive().max(500).optional(),
+                canvasId: canvasIdArg,
+            },
+            async ({ x, y, limit, canvasId }, extra) => {
+                await logToolUsed("who_painted", { x, y, limit, canvasId }, identifyMcpCaller(extra), canvasId);
+                const history = await getPixelHistory({ x, y, limit, canvasId });
+                return { content: [{ type: 'text', text: JSON.stringify(history) }] } as const;
+            }
+        );
+
+        server.tool(
+            "reset_canvas",
+            "Admin: clear the canvas, optionally with a new size and palette",
+            {
+                width: z.number().int().positive().max(1024).optional(),
+                height: z.number().int().positive().max(1024).optional(),
+                palette: z.array(z.string()).min(1).max(256).optional(),
+                canvasId: canvasIdArg,
+            },
+            async (args, extra) => {
+                if (!hasScope(extra.authInfo, "admin")) return forbiddenResult("admin");
+                const clientId = identifyMcpCaller(extra);
+                await logToolUsed("reset_canvas", args, clientId, args.canvasId);
+                const updated = await resetCanvas({ ...args, source: "mcp", clientId });
+                return { content: [{ type: 'text', text: JSON.stringify(updated.meta) }] } as const;
+            }
+        );
+
+        server.tool(
+            "resize_canvas",
+            "Admin: change the canvas size, keeping existing pixels anchored to a corner or the center",
+            {
+                width: z.number().int().positive().max(1024),
+                height: z.number().int().positive().max(1024),
+                anchor: z.enum(["top-left", "top-right", "bottom-left", "bottom-right", "center"]).optional().default("top-left"),
+                canvasId: canvasIdArg,
+            },
+            async (args, extra) => {
+                if (!hasScope(extra.authInfo, "admin")) return forbiddenResult("admin");
+                const clientId = identifyMcpCaller(extra);
+                await logToolUsed("resize_canvas", args, clientId, args.canvasId);
+                const updated = await resizeCanvas({ ...args, source: "mcp", clientId });
+                return { content: [{ type: 'text', text: JSON.stringify(updated.meta) }] } as const;
+            }
+        );
+
+        server.tool(
+            "set_palette",
+            "Admin: replace the palette and/or its policy. Pixels keep their color when it is still in the palette; pixels using removed colors are rejected (mode \"reject\") or replaced with fallbackIndex (mode \"remap\"). Policy \"open\" appends unknown colors, \"strict\" rejects them, \"nearest\" snaps them to the closest palette color",
+            {
+                palette: z.array(z.string()).min(1).max(256).optional(),
+                policy: z.enum(["open", "strict", "nearest"]).optional(),
+                mode: z.enum(["reject", "remap"]).optional().default("reject"),
+                fallbackIndex: z.number().int().min(0).max(255).optional(),
+                canvasId: canvasIdArg,
+            },
+            async (args, extra) => {
+                if (!hasScope(extra.authInfo, "admin")) return forbiddenResult("admin");
+                const clientId = identifyMcpCaller(extra);
+                await logToolUsed("set_palette", args, clientId, args.canvasId);
+                const updated = await setPalette({ ...args, source: "mcp", clientId });
+                return { content: [{ type: 'text', text: JSON.stringify(updated.meta) }] } as const;
+            }
+        );
+
+        server.tool(
+            "revert_range",
+            "Admin: revert every pixel write matching a source, client and/or time window (from/to as epoch milliseconds or ISO 8601), skipping pixels painted over by others since",
+            {
+                source: z.enum(["mcp", "api", "script", "system"]).optional(),
+                clientId: z.string().optional(),
+                from: z.union([z.number(), z.string()]).optional(),
+                to: z.union([z.number(), z.string()]).optional(),
+                canvasId: canvasIdArg,
+            },
+            async (args, extra) => {
+                if (!hasScope(extra.authInfo, "admin")) return forbiddenResult("admin");
+                const clientId = identifyMcpCaller(extra);
+                await logToolUsed("revert_range", args, clientId, args.canvasId);
+                const fromMs = args.from === undefined ? undefined : parseTimestamp(args.from);
+                const toMs = args.to === undefined ? undefined : parseTimestamp(args.to);
+                if ((args.from !== undefined && fromMs === undefined) || (args.to !== undefined && toMs === undefined)) {
+                    return { isError: true, content: [{ type: 'text' as const, text: "from and to must be epoch milliseconds or ISO 8601 dates" }] };
+                }
+                try {
+                    const filter = { source: args.source, clientId: args.clientId, fromMs, toMs };
+                    const { state, ...result } = await revertRange({ filter, source: "mcp", clientId, canvasId: args.canvasId });
+                    return { content: [{ type: 'text' as const, text: JSON.stringify({ meta: state.meta, ...result }) }] };
+                } catch (err) {
+                    return { isError: true, content: [{ type: 'text' as const, text: err instanceof Error ? err.message : String(err) }] };
+                }
+            }
+        );
+
+        server.tool(
+            "list_canvases",
+            "List the canvases with their size, palette size, policy and number of logged events",
+            {},
+            async (_args, extra) => {
+                await logToolUsed("list_canvases", {}, identifyMcpCaller(extra));
+                const canvases = await listCanvases();
+                return { content: [{ type: 'text', text: JSON.stringify(canvases) }] } as const;
+            }
+        );
+
+        server.tool(
+            "create_canvas",
+            "Admin: create a new empty canvas with its own size, palette and event log; pass its id as canvasId to the other tools",
+            {
+                canvasId: z.string().min(1).max(64),
+                title: z.string().max(200).optional(),
+                width: z.number().int().positive().max(1024).optional(),
+                height: z.number().int().positive().max(1024).optional(),
+                palette: z.array(z.string()).min(1).max(256).optional(),
+                policy: z.enum(["open", "strict", "nearest"]).optional(),
+            },
+            async (args, extra) => {
+                if (!hasScope(extra.authInfo, "admin")) return forbiddenResult("admin");
+                const clientId = identifyMcpCaller(extra);
+                await logToolUsed("create_canvas", args, clientId);
+                try {
+                    const { policy, ...rest } = args;
+                    const created = await createCanvas({ ...rest, palettePolicy: policy, source: "mcp", clientId });
+                    return { content: [{ type: 'text' as const, text: JSON.stringify({ canvasId: args.canvasId, ...created.meta }) }] };
+                } catch (err) {
+                    return { isError: true, content: [{ type: 'text' as const, text: err instanceof Error ? err.message : String(err) }] };
+                }
+            }
+        );
+
+        registerCanvasResources(server);
+        registerCanvasPrompts(server);
     },
     {
         // Optional server options
@@ -133,4 +973,21 @@ const handler = createMcpHandler(
         verboseLogs: true,
     }
 );
+
+// Keys are always verified so admin keys work; MCP_AUTH_ENABLED decides whether
+// painting needs one. With auth enabled a key that doesn't verify gets a 401,
+// without it unknown tokens are ignored.
+const handler = withMcpAuth(
+    mcpHandler,
+    async (_req, bearerToken) => {
+        try {
+            return await verifyApiKey(bearerToken);
+        } catch (err) {
+            if (isAuthEnabled()) throw err;
+            return undefined;
+        }
+    },
+    { required: false }
+);
+
 export { handler as GET, handler as POST };
\ No newline at end of file
@@ -0,0 +1,4 @@
+// Messages for SSE sessions opened at /sse
+export { POST } from "@/app/mcp/route";
+
+export const runtime = "nodejs";
@@ -13,7 +13,12 @@ function getMcpUrl(): string {
 }
 
 type PixelSource = "mcp" | "api" | "script" | "system";
-type ToolName = "get_canvas" | "set_pixel" | "set_pixels" | "get_events";
+const TOOL_NAMES = ["get_canvas", "set_pixel", "set_pixels", "get_events", "get_cooldown", "who_painted", "reset_canvas", "resize_canvas", "set_palette", "get_canvas_at", "get_region", "draw_line", "draw_rect", "draw_circle", "flood_fill", "draw_text", "stamp_image", "undo", "revert_range", "claim_region", "list_regions", "release_region", "list_canvases", "create_canvas", "upload_template", "list_templates", "delete_template", "template_diff", "template_progress"] as const;
+type ToolName = (typeof TOOL_NAMES)[number];
+
+function isToolName(value: unknown): value is ToolName {
+  return TOOL_NAMES.includes(value as ToolName);
+}
 
 type PixelSetEvent = {
   type: "pixel_set";
@@ -23,6 +28,7 @@ type PixelSetEvent = {
   colorIndex: number;
   timestampMs: number;
   source: PixelSource;
+  clientId?: string;
 };
 
 type ToolUsedEvent = {
@@ -30,9 +36,42 @@ type ToolUsedEvent = {
   toolName: ToolName;
   argsJson: string;
   timestampMs: number;
+  clientId?: string;
+};
+
+// Logged by the drawing tools after the pixel_set events they produced
+type ShapeDrawnEvent = {
+  type: "shape_drawn";
+  shape: string;
+  color: string;
+  pixelCount: number;
+  timestampMs: number;
+  source: PixelSource;
+  clientId?: string;
+};
+
+// Logged by undo and revert_range after the pixels they restored
+type PixelsRevertedEvent = {
+  type: "pixels_reverted";
+  pixelCount: number;
+  skippedPixels: number;
+  timestampMs: number;
+  source: PixelSource;
+  clientId?: string;
+};
+
+// Resets, resizes, palette changes and restores; only the fields the list shows are typed
+type AdminEvent = {
+  type: "canvas_reset" | "canvas_resized" | "palette_set" | "canvas_restored";
+  width?: number;
+  height?: number;
+  palette?: string[];
+  timestampMs: number;
+  source: PixelSource;
+  clientId?: string;
 };
 
-type CanvasEvent = PixelSetEvent | ToolUsedEvent;
+type CanvasEvent = (PixelSetEvent | ToolUsedEvent | ShapeDrawnEvent | PixelsRevertedEvent | AdminEvent) & { id?: number };
 
 function isRecord(value: unknown): value is Record<string, unknown> {
   return Boolean(value) && typeof value === "object" && !Array.isArray(value);
@@ -53,11 +92,29 @@ function isCanvasEvent(value: unknown): value is CanvasEvent {
   }
   if (type === "tool_used") {
     return (
-      (value.toolName === "get_canvas" || value.toolName === "set_pixel" || value.toolName === "set_pixels" || value.toolName === "get_events") &&
+      isToolName(value.toolName) &&
       typeof value.argsJson === "string" &&
       typeof value.timestampMs === "number"
     );
   }
+  if (type === "shape_drawn") {
+    return (
+      typeof value.shape === "string" &&
+      typeof value.color === "string" &&
+      typeof value.pixelCount === "number" &&
+      typeof value.timestampMs === "number"
+    );
+  }
+  if (type === "pixels_reverted") {
+    return (
+      typeof value.pixelCount === "number" &&
+      typeof value.skippedPixels === "number" &&
+      typeof value.timestampMs === "number"
+    );
+  }
+  if (type === "canvas_reset" || type === "canvas_resized" || type === "palette_set" || type === "canvas_restored") {
+    return typeof value.timestampMs === "number";
+  }
   return false;
 }
 
@@ -111,12 +168,27 @@ export default function Home() {
     if (!eventsOpen) return;
     const controller = new AbortController();
     loadEvents({ limit: 100, signal: controller.signal }).catch(() => { });
-    const id = setInterval(() => {
-      loadEvents({ limit: 100, signal: controller.signal, showLoader: false }).catch(() => { });
-    }, 5000);
+    // Live updates: the stream pushes only events logged after we connected
+    const source = new EventSource("/api/canvas/stream?snapshot=false");
+    source.addEventListener("events", (e) => {
+      let data: unknown;
+      try {
+        data = JSON.parse((e as MessageEvent<string>).data);
+      } catch {
+        return;
+      }
+      const incoming = (Array.isArray(data) ? data : []).filter(isCanvasEvent);
+      if (incoming.length === 0) return;
+      setEvents((prev) => {
+        // The initial fetch and the stream can overlap; drop events we already have
+        const seen = new Set(prev.map((ev) => ev.id));
+        const fresh = incoming.filter((ev) => ev.id === undefined || !seen.has(ev.id));
+        return [...fresh.reverse(), ...prev].slice(0, 100);
+      });
+    });
     return () => {
       controller.abort();
-      clearInterval(id);
+      source.close();
     };
   }, [eventsOpen]);
 
@@ -294,8 +366,8 @@ export default function Home() {
                 <li className="text-xs text-zinc-500 dark:text-zinc-400 py-4 px-4">No recent events</li>
               ) : (
                 events.map((ev, idx) => (
-                  <li key={idx} className="py-3 px-4 flex items-start gap-3">
-                    {ev.type === "pixel_set" ? (
+                  <li key={ev.id ?? idx} className="py-3 px-4 flex items-start gap-3">
+                    {ev.type === "pixel_set" || ev.type === "shape_drawn" ? (
                       <span className="mt-0.5 inline-block w-3 h-3 rounded-sm border border-black/10" style={{ backgroundColor: ev.color }} aria-label={`Color ${ev.color}`}></span>
                     ) : (
                       <span className="mt-0.5 inline-block w-3 h-3 rounded-full bg-zinc-400 dark:bg-zinc-500" aria-hidden="true"></span>
@@ -304,11 +376,31 @@ export default function Home() {
                       {ev.type === "pixel_set" ? (
                         <div className="text-xs text-zinc-800 dark:text-zinc-100">
                           <span className="font-medium">Pixel</span> set to <span className="font-mono">{ev.color}</span> at (<span className="font-mono">{ev.x}</span>,<span className="font-mono">{ev.y}</span>)
-                          <span className="text-zinc-500 dark:text-zinc-400"> · {ev.source}</span>
+                          <span className="text-zinc-500 dark:text-zinc-400"> · {ev.clientId ?? ev.source}</span>
+                        </div>
+                      ) : ev.type === "shape_drawn" ? (
+                        <div className="text-xs text-zinc-800 dark:text-zinc-100">
+                          <span className="font-medium">Shape</span> <span className="font-mono">{ev.shape}</span> drawn in <span className="font-mono">{ev.color}</span> ({ev.pixelCount} pixels)
+                          <span className="text-zinc-500 dark:text-zinc-400"> · {ev.clientId ?? ev.source}</span>
+                        </div>
+                      ) : ev.type === "pixels_reverted" ? (
+                        <div className="text-xs text-zinc-800 dark:text-zinc-100">
+                          <span className="font-medium">Revert</span> restored {ev.pixelCount} pixels{ev.skippedPixels > 0 && <> ({ev.skippedPixels} skipped)</>}
+                          <span className="text-zinc-500 dark:text-zinc-400"> · {ev.clientId ?? ev.source}</span>
+                        </div>
+                      ) : ev.type !== "tool_used" ? (
+                        <div className="text-xs text-zinc-800 dark:text-zinc-100">
+                          <span className="font-medium">Admin</span>{" "}
+                          {ev.type === "canvas_reset" && <>reset the canvas to {ev.width}×{ev.height}</>}
+                          {ev.type === "canvas_resized" && <>resized the canvas to {ev.width}×{ev.height}</>}
+                          {ev.type === "palette_set" && <>set a {ev.palette?.length ?? 0}-color palette</>}
+                          {ev.type === "canvas_restored" && <>restored the canvas from a backup ({ev.width}×{ev.height})</>}
+                          <span className="text-zinc-500 dark:text-zinc-400"> · {ev.clientId ?? ev.source}</span>
                         </div>
                       ) : (
                         <div className="text-xs text-zinc-800 dark:text-zinc-100">
                           <span className="font-medium">Tool</span> <span className="font-mono">{ev.toolName}</span> used
+                          {ev.clientId && <span className="text-zinc-500 dark:text-zinc-400"> by {ev.clientId}</span>}
                           {(() => {
                             const text = ev.argsJson;
                             const trimmed = text.length > 120 ? text.slice(0, 117) + "..." : text;
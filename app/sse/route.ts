@@ -0,0 +1,7 @@
+// SSE transport of the MCP server (GET /sse opens a session, POST /message sends
+// to it). Unlike the stateless /mcp endpoint it keeps a server per session, which
+// resource subscriptions need. mcp-handler relays the messages through REDIS_URL.
+export { GET } from "@/app/mcp/route";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
@@ -1,6 +1,6 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useRef, useState, type MouseEvent } from "react";
 
 type CanvasMetadata = {
   width: number;
@@ -13,6 +13,29 @@ type CanvasState = {
   pixelsBase64: string;
 };
 
+type PixelDelta = {
+  type: "pixel_set";
+  x: number;
+  y: number;
+  color: string;
+  colorIndex: number;
+};
+
+type StreamedEvent = PixelDelta | { type: string };
+
+function isPixelDelta(event: StreamedEvent): event is PixelDelta {
+  return event.type === "pixel_set";
+}
+
+// Subset of the POST /api/canvas/pixels response the canvas looks at
+type PaintResponse = {
+  error?: string;
+  message?: string;
+  retryAfterMs?: number;
+  applied?: { x: number; y: number; color: string; colorIndex: number }[];
+  rejected?: { reason: string }[];
+};
+
 function decodePixelsFromBase64(base64: string): Uint8Array {
   if (typeof window === "undefined") return new Uint8Array();
   const binary = atob(base64);
@@ -22,32 +45,85 @@ function decodePixelsFromBase64(base64: string): Uint8Array {
 }
 
 export default function PlaceCanvas() {
-  const [state, setState] = useState<CanvasState | null>(null);
+  const [meta, setMeta] = useState<CanvasMetadata | null>(null);
+  // Bumped whenever pixelsRef is replaced wholesale so the full repaint effect runs
+  const [snapshotVersion, setSnapshotVersion] = useState<number>(0);
+  const pixelsRef = useRef<Uint8Array | null>(null);
+  const metaRef = useRef<CanvasMetadata | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
   const [scale, setScale] = useState<number>(4);
+  const scaleRef = useRef<number>(scale);
+  // Selected palette color; new canvases are filled with the first entry, so the second is the default
+  const [selectedColor, setSelectedColor] = useState<string | null>(null);
+  const [hover, setHover] = useState<{ x: number; y: number } | null>(null);
+  const [paintError, setPaintError] = useState<string | null>(null);
 
-  const fetchState = useCallback(async () => {
-    const res = await fetch("/api/canvas", { cache: "no-store" });
-    const json = (await res.json()) as CanvasState;
-    setState(json);
-  }, []);
+  useEffect(() => {
+    metaRef.current = meta;
+    scaleRef.current = scale;
+  }, [meta, scale]);
 
+  // The stream sends a snapshot first and then only the events committed after it.
+  // EventSource reconnects on its own and resumes via Last-Event-ID.
   useEffect(() => {
-    void fetchState();
-    const id = setInterval(fetchState, 2000);
-    return () => clearInterval(id);
-  }, [fetchState]);
+    const source = new EventSource("/api/canvas/stream");
+
+    source.addEventListener("snapshot", (e) => {
+      const { state } = JSON.parse((e as MessageEvent<string>).data) as { state: CanvasState };
+      pixelsRef.current = decodePixelsFromBase64(state.pixelsBase64);
+      metaRef.current = state.meta;
+      setMeta(state.meta);
+      setSnapshotVersion((v) => v + 1);
+    });
+
+    source.addEventListener("events", (e) => {
+      const events = JSON.parse((e as MessageEvent<string>).data) as StreamedEvent[];
+      const current = metaRef.current;
+      const pixels = pixelsRef.current;
+      if (!current || !pixels) return;
+      const deltas = events.filter(isPixelDelta);
+      if (deltas.length === 0) return;
+
+      // New colors show up in deltas before we see a palette; grow it locally
+      let palette = current.palette;
+      for (const delta of deltas) {
+        if (palette[delta.colorIndex] !== delta.color) {
+          if (palette === current.palette) palette = [...palette];
+          palette[delta.colorIndex] = delta.color;
+        }
+      }
+
+      const ctx = canvasRef.current?.getContext("2d");
+      const cellScale = scaleRef.current;
+      for (const delta of deltas) {
+        if (delta.x < 0 || delta.y < 0 || delta.x >= current.width || delta.y >= current.height) continue;
+        pixels[delta.y * current.width + delta.x] = delta.colorIndex;
+        if (ctx) {
+          ctx.fillStyle = palette[delta.colorIndex] ?? "#000000";
+          ctx.fillRect(delta.x * cellScale, delta.y * cellScale, cellScale, cellScale);
+        }
+      }
+
+      if (palette !== current.palette) {
+        const nextMeta = { ...current, palette };
+        metaRef.current = nextMeta;
+        setMeta(nextMeta);
+      }
+    });
+
+    return () => source.close();
+  }, []);
 
   // Compute a responsive integer scale so the canvas fits its container across screen sizes
   useEffect(() => {
-    if (!state || !containerRef.current) return;
+    if (!meta || !containerRef.current) return;
     const element = containerRef.current;
 
     const updateScale = () => {
       const rect = element.getBoundingClientRect();
       if (!rect.width || !rect.height) return;
-      const { width, height } = state.meta;
+      const { width, height } = meta;
       // Leave a small margin so borders/shadows don't trigger scrollbars
       const availableWidth = Math.max(0, rect.width - 8);
       const availableHeight = Math.max(0, rect.height - 8);
@@ -63,16 +139,13 @@ export default function PlaceCanvas() {
       resizeObserver.disconnect();
       window.removeEventListener("resize", updateScale);
     };
-  }, [state]);
-
-  const pixels = useMemo(() => {
-    if (!state) return null;
-    return decodePixelsFromBase64(state.pixelsBase64);
-  }, [state]);
+  }, [meta]);
 
+  // Full repaint on snapshots, palette growth and rescaling; deltas paint their own cells
   useEffect(() => {
-    if (!state || !pixels || !canvasRef.current) return;
-    const { width, height, palette } = state.meta;
+    const pixels = pixelsRef.current;
+    if (!meta || !pixels || !canvasRef.current) return;
+    const { width, height, palette } = meta;
     const canvas = canvasRef.current;
     canvas.width = width * scale;
     canvas.height = height * scale;
@@ -88,17 +161,107 @@ export default function PlaceCanvas() {
         ctx.fillRect(x * scale, y * scale, scale, scale);
       }
     }
-  }, [state, pixels, scale]);
+  }, [meta, snapshotVersion, scale]);
+
+  const activeColor = meta && selectedColor !== null && meta.palette.includes(selectedColor)
+    ? selectedColor
+    : meta?.palette[Math.min(1, meta.palette.length - 1)];
+
+  const paintCell = (x: number, y: number, colorIndex: number) => {
+    const current = metaRef.current;
+    const pixels = pixelsRef.current;
+    if (!current || !pixels) return;
+    pixels[y * current.width + x] = colorIndex;
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    const cellScale = scaleRef.current;
+    ctx.fillStyle = current.palette[colorIndex] ?? "#000000";
+    ctx.fillRect(x * cellScale, y * cellScale, cellScale, cellScale);
+  };
+
+  const cellAt = (e: MouseEvent<HTMLCanvasElement>): { x: number; y: number } | null => {
+    const current = metaRef.current;
+    if (!current) return null;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.floor(((e.clientX - rect.left) / rect.width) * current.width);
+    const y = Math.floor(((e.clientY - rect.top) / rect.height) * current.height);
+    return x >= 0 && y >= 0 && x < current.width && y < current.height ? { x, y } : null;
+  };
+
+  // Paints the cell right away and rolls it back if the server doesn't write it.
+  // The stream later delivers the committed pixel like any other.
+  const handleClick = async (e: MouseEvent<HTMLCanvasElement>) => {
+    const cell = cellAt(e);
+    const current = metaRef.current;
+    const pixels = pixelsRef.current;
+    if (!cell || !current || !pixels || !activeColor) return;
+    const colorIndex = current.palette.indexOf(activeColor);
+    const offset = cell.y * current.width + cell.x;
+    const previousIndex = pixels[offset];
+    if (colorIndex === -1 || colorIndex === previousIndex) return;
+    paintCell(cell.x, cell.y, colorIndex);
+    setPaintError(null);
+
+    const rollBack = (message: string) => {
+      // Leave the cell alone if something else has painted it in the meantime
+      if (pixelsRef.current === pixels && pixels[offset] === colorIndex) paintCell(cell.x, cell.y, previousIndex);
+      setPaintError(message);
+    };
+    try {
+      const res = await fetch("/api/canvas/pixels", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ updates: [{ ...cell, color: activeColor }] }),
+      });
+      const data = (await res.json()) as PaintResponse;
+      if (data.error === "cooldown") {
+        rollBack(`Cooldown: try again in ${Math.ceil((data.retryAfterMs ?? 0) / 1000)}s`);
+      } else if (!res.ok) {
+        rollBack(data.message ?? data.error ?? `Failed to paint: ${res.status}`);
+      } else if (data.rejected && data.rejected.length > 0) {
+        rollBack(`Can't paint here: ${data.rejected[0].reason}`);
+      }
+    } catch {
+      rollBack("Failed to paint: network error");
+    }
+  };
 
-  if (!state) return <div>Loading canvas…</div>;
+  if (!meta) return <div>Loading canvas…</div>;
 
   return (
-    <div ref={containerRef} className="flex flex-col gap-4 items-center w-full h-full">
-      <canvas
-        ref={canvasRef}
-        className="border border-black/20 rounded shadow-sm bg-white"
-        style={{ imageRendering: "pixelated" }}
-      />
+    <div className="flex flex-col gap-3 items-center w-full h-full min-h-0">
+      <div ref={containerRef} className="flex flex-1 items-center justify-center w-full min-h-0">
+        <canvas
+          ref={canvasRef}
+          className="border border-black/20 rounded shadow-sm bg-white cursor-crosshair"
+          style={{ imageRendering: "pixelated" }}
+          onClick={handleClick}
+          onMouseMove={(e) => {
+            const cell = cellAt(e);
+            setHover((prev) => (prev?.x === cell?.x && prev?.y === cell?.y ? prev : cell));
+          }}
+          onMouseLeave={() => setHover(null)}
+        />
+      </div>
+      <div className="flex flex-wrap items-center justify-center gap-1 max-w-full" role="radiogroup" aria-label="Paint color">
+        {meta.palette.map((color, index) => (
+          <button
+            key={`${index}-${color}`}
+            type="button"
+            role="radio"
+            aria-checked={color === activeColor}
+            aria-label={`Color ${color}`}
+            title={color}
+            className={`w-5 h-5 rounded-sm border cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500 ${color === activeColor ? "border-black dark:border-white ring-1 ring-black dark:ring-white" : "border-black/20"}`}
+            style={{ backgroundColor: color }}
+            onClick={() => setSelectedColor(color)}
+          />
+        ))}
+      </div>
+      <div className="flex gap-3 text-xs h-4 text-zinc-500 dark:text-zinc-400">
+        <span className="font-mono">{hover ? `(${hover.x}, ${hover.y})` : `${meta.width}×${meta.height}`}</span>
+        {paintError && <span className="text-red-600 dark:text-red-400 truncate max-w-[320px]" title={paintError}>{paintError}</span>}
+      </div>
     </div>
   );
 }
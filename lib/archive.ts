@@ -0,0 +1,160 @@
+import {
+    createEmptyPixels,
+    encodePixelsToBase64,
+    getCanvas,
+    getCanvasEvents,
+    MAX_EVENT_PAGE_SIZE,
+    type CanvasEvent,
+    type CanvasMetadata,
+    type CanvasState,
+    type LoggedCanvasEvent,
+} from "@/lib/canvas";
+import { resolveCanvasId } from "@/lib/canvas-store";
+import { quantizeImage } from "@/lib/stamp";
+
+// Backups of a canvas: its state plus the retained event log, written as one JSON
+// document or as NDJSON (the header on the first line, then one event per line).
+export const ARCHIVE_FORMAT = "mcplace-canvas-archive";
+export const ARCHIVE_VERSION = 1;
+
+export type ArchiveEncoding = "json" | "ndjson";
+
+export type CanvasArchiveHeader = {
+    format: typeof ARCHIVE_FORMAT;
+    version: number;
+    canvasId: string;
+    exportedAtMs: number;
+    state: CanvasState;
+    firstEventId: number; // id of events[0] in the original log; earlier events were compacted
+    eventCount: number;
+};
+
+export type CanvasArchive = CanvasArchiveHeader & { events: LoggedCanvasEvent[] };
+
+export async function exportCanvasArchive(params: { canvasId?: string; withEvents?: boolean } = {}): Promise<CanvasArchive> {
+    const canvasId = resolveCanvasId(params.canvasId);
+    const state = await getCanvas(canvasId);
+    const events: LoggedCanvasEvent[] = [];
+    let firstEventId = 0;
+    if (params.withEvents !== false) {
+        let after = -1;
+        for (; ;) {
+            const page = await getCanvasEvents({ after, limit: MAX_EVENT_PAGE_SIZE, canvasId });
+            firstEventId = page.firstEventId;
+            events.push(...page.events);
+            if (page.nextCursor === undefined) break;
+            after = page.nextCursor;
+        }
+        // Writes committed while paging are in the log but not in `state`; that's fine for a backup
+    }
+    return {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        canvasId,
+        exportedAtMs: Date.now(),
+        state,
+        firstEventId: events[0]?.id ?? firstEventId,
+        eventCount: events.length,
+        events,
+    };
+}
+
+export function serializeArchive(archive: CanvasArchive, encoding: ArchiveEncoding): string {
+    if (encoding === "json") return JSON.stringify(archive);
+    const { events, ...header } = archive;
+    return [header, ...events].map((line) => JSON.stringify(line)).join("\n") + "\n";
+}
+
+function readHeader(value: unknown): CanvasArchiveHeader {
+    const header = value as Partial<CanvasArchiveHeader> | null;
+    if (!header || typeof header !== "object" || header.format !== ARCHIVE_FORMAT) {
+        throw new Error("Not a canvas archive (missing format marker)");
+    }
+    if (typeof header.version !== "number" || header.version > ARCHIVE_VERSION) {
+        throw new Error(`Unsupported archive version ${header.version} (this build reads up to ${ARCHIVE_VERSION})`);
+    }
+    const meta = header.state?.meta;
+    if (!meta || typeof meta.width !== "number" || typeof meta.height !== "number" || !Array.isArray(meta.palette)
+        || typeof header.state?.pixelsBase64 !== "string") {
+        throw new Error("Archive has no valid canvas state");
+    }
+    return header as CanvasArchiveHeader;
+}
+
+function checkEventCount(header: CanvasArchiveHeader, events: LoggedCanvasEvent[]): LoggedCanvasEvent[] {
+    if (events.length !== header.eventCount) {
+        throw new Error(`Archive is truncated: header announces ${header.eventCount} events, found ${events.length}`);
+    }
+    return events;
+}
+
+// Accepts both encodings: a JSON archive parses as one document, and so does NDJSON
+// without events (just the header line)
+export function parseArchive(text: string): CanvasArchive {
+    const trimmed = text.trim();
+    let document: unknown;
+    try {
+        document = JSON.parse(trimmed);
+    } catch {
+        document = undefined;
+    }
+    if (document !== undefined) {
+        const header = readHeader(document);
+        const events = (document as Partial<CanvasArchive>).events ?? [];
+        if (!Array.isArray(events)) throw new Error("Archive events must be an array");
+        return { ...header, events: checkEventCount(header, events) };
+    }
+    const lines = trimmed.split("\n").filter((line) => line.trim() !== "");
+    let header: CanvasArchiveHeader;
+    try {
+        header = readHeader(JSON.parse(lines[0]));
+    } catch (err) {
+        throw err instanceof SyntaxError ? new Error("Not a canvas archive (invalid JSON)") : err;
+    }
+    const events = lines.slice(1).map((line, i) => {
+        try {
+            return JSON.parse(line) as LoggedCanvasEvent;
+        } catch {
+            throw new Error(`Invalid JSON on line ${i + 2}`);
+        }
+    });
+    return { ...header, events: checkEventCount(header, events) };
+}
+
+// Events as they go back into a log; ids are positions and get reassigned
+export function archiveHistory(archive: CanvasArchive): CanvasEvent[] {
+    return archive.events.map((event) => Object.fromEntries(Object.entries(event).filter(([key]) => key !== "id")) as CanvasEvent);
+}
+
+// Checks that the pixel data holds width*height cells like decodePixelsFromBase64
+// does. With `force`, mismatched data is cut off or padded with color 0 instead.
+export function checkArchiveState(state: CanvasState, force = false): { state: CanvasState; mismatch?: string } {
+    const { width, height } = state.meta;
+    const expected = width * height;
+    const actual = Buffer.from(state.pixelsBase64, "base64").length;
+    if (actual === expected) {
+        return { state };
+    }
+    const mismatch = `Archive has ${actual} pixels but its ${width}x${height} canvas needs ${expected}`;
+    if (!force) {
+        throw new Error(`${mismatch}; pass --force to cut or pad the pixel data`);
+    }
+    const pixels = createEmptyPixels(width, height, 0);
+    pixels.set(Buffer.from(state.pixelsBase64, "base64").subarray(0, expected));
+    return { state: { meta: state.meta, pixelsBase64: encodePixelsToBase64(pixels) }, mismatch };
+}
+
+// A canvas state from a PNG, snapped to `meta.palette` (transparent pixels get
+// color 0). PNGs of another size are refused unless `force` is set, in which case
+// the canvas takes the PNG's size.
+export function stateFromPng(png: Uint8Array, meta: CanvasMetadata, options: { dither?: boolean; force?: boolean } = {}): CanvasState {
+    const { width, height, indices } = quantizeImage({ pngBase64: Buffer.from(png).toString("base64") }, meta.palette, { dither: options.dither });
+    if ((width !== meta.width || height !== meta.height) && !options.force) {
+        throw new Error(`PNG is ${width}x${height} but the canvas is ${meta.width}x${meta.height}; pass --force to restore at the PNG's size`);
+    }
+    const pixels = createEmptyPixels(width, height, 0);
+    indices.forEach((index, i) => {
+        if (index !== -1) pixels[i] = index;
+    });
+    return { meta: { ...meta, width, height }, pixelsBase64: encodePixelsToBase64(pixels) };
+}
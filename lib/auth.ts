@@ -0,0 +1,90 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { getCanvasStore } from "@/lib/canvas-store";
+
+// Scopes are cumulative: paint includes read, admin includes paint
+export type ApiKeyScope = "read" | "paint" | "admin";
+
+export const API_KEY_SCOPES: readonly ApiKeyScope[] = ["read", "paint", "admin"];
+
+export type ApiKeyRecord = {
+    id: string;
+    label: string;
+    scope: ApiKeyScope;
+    secretHash: string; // sha256 of the secret part; the key itself is never stored
+    createdAtMs: number;
+};
+
+// Shape of the auth info handed to MCP tools (a subset of the SDK's AuthInfo)
+export type McpAuthInfo = {
+    token: string;
+    clientId: string;
+    scopes: string[];
+};
+
+const API_KEYS_HASH_KEY = "canvas:apikeys:v1";
+const KEY_PREFIX = "mcpl";
+
+export function isAuthEnabled(): boolean {
+    const flag = process.env.MCP_AUTH_ENABLED?.trim().toLowerCase();
+    return flag === "1" || flag === "true";
+}
+
+function hashSecret(secret: string): string {
+    return createHash("sha256").update(secret).digest("hex");
+}
+
+export function scopesFor(scope: ApiKeyScope): ApiKeyScope[] {
+    return API_KEY_SCOPES.slice(0, API_KEY_SCOPES.indexOf(scope) + 1);
+}
+
+// Keys look like mcpl_<id>_<secret>; the id selects the record, the secret proves ownership
+export async function issueApiKey(params: { label: string; scope: ApiKeyScope }): Promise<{ key: string; record: ApiKeyRecord }> {
+    if (!API_KEY_SCOPES.includes(params.scope)) {
+        throw new Error(`Unknown scope "${params.scope}" (expected ${API_KEY_SCOPES.join(", ")})`);
+    }
+    const id = randomBytes(6).toString("hex");
+    const secret = randomBytes(24).toString("base64url");
+    const record: ApiKeyRecord = {
+        id,
+        label: params.label,
+        scope: params.scope,
+        secretHash: hashSecret(secret),
+        createdAtMs: Date.now(),
+    };
+    await getCanvasStore().writeHashField(API_KEYS_HASH_KEY, id, record);
+    return { key: `${KEY_PREFIX}_${id}_${secret}`, record };
+}
+
+export async function revokeApiKey(id: string): Promise<boolean> {
+    return getCanvasStore().deleteHashField(API_KEYS_HASH_KEY, id);
+}
+
+export async function listApiKeys(): Promise<ApiKeyRecord[]> {
+    const records = await getCanvasStore().readHash<ApiKeyRecord>(API_KEYS_HASH_KEY);
+    return Object.values(records).sort((a, b) => a.createdAtMs - b.createdAtMs);
+}
+
+// Returns undefined when no token was sent and throws for tokens that don't
+// verify, so a mistyped key fails loudly instead of silently downgrading to read-only.
+export async function verifyApiKey(token: string | undefined): Promise<McpAuthInfo | undefined> {
+    if (!token) return undefined;
+    const match = token.match(new RegExp(`^${KEY_PREFIX}_([0-9a-f]+)_(.+)$`));
+    if (!match) throw new Error("Malformed API key");
+    const [, id, secret] = match;
+    const record = await getCanvasStore().readHashField<ApiKeyRecord>(API_KEYS_HASH_KEY, id);
+    if (!record) throw new Error("Unknown or revoked API key");
+    const expected = Buffer.from(record.secretHash, "hex");
+    const actual = Buffer.from(hashSecret(secret), "hex");
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        throw new Error("Invalid API key");
+    }
+    return { token, clientId: record.id, scopes: scopesFor(record.scope) };
+}
+
+// Reading is open to everyone and so is painting while auth is disabled;
+// admin tools always need an admin key.
+export function hasScope(authInfo: { scopes: string[] } | undefined, scope: ApiKeyScope): boolean {
+    if (scope === "read") return true;
+    if (authInfo?.scopes.includes(scope)) return true;
+    return scope === "paint" && !isAuthEnabled();
+}
@@ -0,0 +1,463 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { Redis } from "@upstash/redis";
+import type { CanvasEvent, CanvasState } from "@/lib/canvas";
+
+export type StoredCanvas = {
+    state: CanvasState;
+    version: number; // incremented on every committed write
+};
+
+export type CommitResult = {
+    version: number;
+    eventCount: number; // countEvents right after this commit's events were appended
+};
+
+export type EventRange = {
+    startId: number; // id of events[0]
+    events: unknown[];
+};
+
+// Storage backend for the canvas blobs and their append-only event logs, one of
+// each per canvas id. Events are returned raw (as stored) and parsed by lib/canvas.ts.
+// An event's id is its position in the log counted from the very first event, so
+// ids stay stable when old events are trimmed.
+export interface CanvasStore {
+    readState(canvasId: string): Promise<StoredCanvas | null>;
+    // Writes the state and appends its events in one atomic step. When
+    // expectedVersion is given and the stored version differs, nothing is
+    // written and null is returned.
+    commitState(
+        canvasId: string,
+        state: CanvasState,
+        options?: { expectedVersion?: number; events?: CanvasEvent[] }
+    ): Promise<CommitResult | null>;
+    appendEvents(canvasId: string, events: CanvasEvent[]): Promise<void>;
+    // Number of events ever appended, i.e. the id the next event gets
+    countEvents(canvasId: string): Promise<number>;
+    // Id of the oldest retained event (0 until the log is trimmed)
+    firstEventId(canvasId: string): Promise<number>;
+    // Retained events with ids from start to stop (inclusive)
+    readEvents(canvasId: string, start: number, stop: number): Promise<EventRange>;
+    // Drops the events before `beforeId`
+    trimEvents(canvasId: string, beforeId: number): Promise<void>;
+    // Atomically adds `amount` to a counter that expires ttlMs after it was created
+    incrementCounter(key: string, amount: number, ttlMs: number): Promise<number>;
+    // Small keyed records (API keys and similar), stored as JSON in a Redis-style hash
+    readHash<T>(key: string): Promise<Record<string, T>>;
+    readHashField<T>(key: string, field: string): Promise<T | null>;
+    writeHashField<T>(key: string, field: string, value: T): Promise<void>;
+    deleteHashField(key: string, field: string): Promise<boolean>;
+}
+
+export type CanvasStoreKind = "upstash" | "memory" | "file";
+
+// The canvas that existed before canvases had ids; it keeps the original keys
+export const DEFAULT_CANVAS_ID = "default";
+
+const CANVAS_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+// Validates a canvas id, falling back to the default canvas when none is given
+export function resolveCanvasId(canvasId?: string): string {
+    if (canvasId === undefined) return DEFAULT_CANVAS_ID;
+    if (!CANVAS_ID_PATTERN.test(canvasId)) {
+        throw new Error(`Invalid canvas id "${canvasId}": use 1-64 lowercase letters, digits, dashes or underscores`);
+    }
+    return canvasId;
+}
+
+// Keys derived from a canvas id and a base key, e.g. for per-canvas hashes.
+// The default canvas uses the base key itself.
+export function canvasScopedKey(baseKey: string, canvasId: string): string {
+    return canvasId === DEFAULT_CANVAS_ID ? baseKey : `${baseKey}:${canvasId}`;
+}
+
+// The events list holds the retained events; the offset key counts the trimmed ones
+function canvasKeys(canvasId: string): [state: string, version: string, events: string, eventsOffset: string] {
+    if (canvasId === DEFAULT_CANVAS_ID) {
+        return ["canvas:v1", "canvas:v1:version", "canvas:events:v1", "canvas:events:v1:offset"];
+    }
+    const events = `canvas:events:v1:c:${canvasId}`;
+    return [`canvas:v1:c:${canvasId}`, `canvas:v1:c:${canvasId}:version`, events, `${events}:offset`];
+}
+
+// KEYS: canvas, version, events, offset. ARGV: state JSON, expected version ("" = any), event JSON...
+// Events are pushed in chunks, since unpack() fails beyond a few thousand values.
+const COMMIT_STATE_SCRIPT = `
+local current = tonumber(redis.call("GET", KEYS[2]) or "0")
+if ARGV[2] ~= "" and current ~= tonumber(ARGV[2]) then
+  return -1
+end
+redis.call("SET", KEYS[1], ARGV[1])
+redis.call("SET", KEYS[2], current + 1)
+local count = redis.call("LLEN", KEYS[3])
+for i = 3, #ARGV, 1000 do
+  count = redis.call("RPUSH", KEYS[3], unpack(ARGV, i, math.min(i + 999, #ARGV)))
+end
+return { current + 1, count + tonumber(redis.call("GET", KEYS[4]) or "0") }
+`;
+
+// KEYS: events, offset. ARGV: first id, last id. Reads and offset are consistent even while trimming.
+const READ_EVENTS_SCRIPT = `
+local offset = tonumber(redis.call("GET", KEYS[2]) or "0")
+local start = math.max(tonumber(ARGV[1]), offset)
+local stop = tonumber(ARGV[2])
+if stop < start then
+  return { start, {} }
+end
+return { start, redis.call("LRANGE", KEYS[1], start - offset, stop - offset) }
+`;
+
+// KEYS: events, offset. ARGV: id of the first event to keep
+const TRIM_EVENTS_SCRIPT = `
+local offset = tonumber(redis.call("GET", KEYS[2]) or "0")
+local drop = math.min(tonumber(ARGV[1]) - offset, redis.call("LLEN", KEYS[1]))
+if drop <= 0 then
+  return offset
+end
+redis.call("LTRIM", KEYS[1], drop, -1)
+redis.call("SET", KEYS[2], offset + drop)
+return offset + drop
+`;
+
+// In-memory counterpart of READ_EVENTS_SCRIPT over the retained events
+function readRetained(events: string[], firstId: number, start: number, stop: number): EventRange {
+    const startId = Math.max(start, firstId);
+    if (stop < startId) return { startId, events: [] };
+    return { startId, events: events.slice(startId - firstId, stop - firstId + 1) };
+}
+
+export function createUpstashStore(redis: Redis = Redis.fromEnv()): CanvasStore {
+    const commitScript = redis.createScript<number | [number, number]>(COMMIT_STATE_SCRIPT);
+    const readEventsScript = redis.createScript<[number, unknown[]]>(READ_EVENTS_SCRIPT);
+    const trimEventsScript = redis.createScript<number>(TRIM_EVENTS_SCRIPT);
+    return {
+        async readState(canvasId) {
+            const [stateKey, versionKey] = canvasKeys(canvasId);
+            const [state, version] = await redis.mget<[CanvasState | null, number | null]>(stateKey, versionKey);
+            return state ? { state, version: Number(version ?? 0) } : null;
+        },
+        async commitState(canvasId, state, options) {
+            const args = [
+                JSON.stringify(state),
+                options?.expectedVersion === undefined ? "" : String(options.expectedVersion),
+                ...(options?.events ?? []).map((e) => JSON.stringify(e)),
+            ];
+            const result = await commitScript.exec(canvasKeys(canvasId), args);
+            if (!Array.isArray(result)) return null;
+            return { version: Number(result[0]), eventCount: Number(result[1]) };
+        },
+        async appendEvents(canvasId, events) {
+            if (events.length === 0) return;
+            await redis.rpush(canvasKeys(canvasId)[2], ...events.map((e) => JSON.stringify(e)));
+        },
+        async countEvents(canvasId) {
+            const [, , eventsKey, offsetKey] = canvasKeys(canvasId);
+            const [offset, length] = await redis.multi().get<number>(offsetKey).llen(eventsKey).exec<[number | null, number]>();
+            return Number(offset ?? 0) + length;
+        },
+        async firstEventId(canvasId) {
+            return Number((await redis.get<number>(canvasKeys(canvasId)[3])) ?? 0);
+        },
+        async readEvents(canvasId, start, stop) {
+            const [, , eventsKey, offsetKey] = canvasKeys(canvasId);
+            const [startId, events] = await readEventsScript.exec([eventsKey, offsetKey], [String(start), String(stop)]);
+            return { startId: Number(startId), events };
+        },
+        async trimEvents(canvasId, beforeId) {
+            const [, , eventsKey, offsetKey] = canvasKeys(canvasId);
+            await trimEventsScript.exec([eventsKey, offsetKey], [String(beforeId)]);
+        },
+        async incrementCounter(key, amount, ttlMs) {
+            const [value] = await redis.multi().incrby(key, amount).pexpire(key, ttlMs, "NX").exec<[number, number]>();
+            return value;
+        },
+        async readHash<T>(key: string) {
+            return (await redis.hgetall<Record<string, T>>(key)) ?? {};
+        },
+        async readHashField<T>(key: string, field: string) {
+            return (await redis.hget<T>(key, field)) ?? null;
+        },
+        async writeHashField(key, field, value) {
+            await redis.hset(key, { [field]: value });
+        },
+        async deleteHashField(key, field) {
+            return (await redis.hdel(key, field)) > 0;
+        },
+    };
+}
+
+type CanvasData = {
+    state: CanvasState | null;
+    version: number;
+    events: string[]; // retained events only
+    firstEventId?: number; // number of trimmed events, 0 when missing
+};
+
+type MemoryData = {
+    canvases: Record<string, CanvasData>;
+    counters: Record<string, { value: number; expiresAtMs: number }>;
+    hashes: Record<string, Record<string, unknown>>;
+};
+
+function emptyData(): MemoryData {
+    return { canvases: {}, counters: {}, hashes: {} };
+}
+
+function canvasInData(data: MemoryData, canvasId: string): CanvasData {
+    return (data.canvases[canvasId] ??= { state: null, version: 0, events: [] });
+}
+
+// Like canvasInData, but without creating an entry for unknown canvases
+function peekCanvas(data: MemoryData, canvasId: string): CanvasData | undefined {
+    return data.canvases[canvasId];
+}
+
+function writeHashFieldInData(data: MemoryData, key: string, field: string, value: unknown): void {
+    data.hashes[key] = { ...data.hashes[key], [field]: structuredClone(value) };
+}
+
+function deleteHashFieldInData(data: MemoryData, key: string, field: string): boolean {
+    const hash = data.hashes[key];
+    if (!hash || !(field in hash)) return false;
+    delete hash[field];
+    return true;
+}
+
+function incrementInData(data: MemoryData, key: string, amount: number, ttlMs: number): number {
+    const now = Date.now();
+    const existing = data.counters[key];
+    const counter = existing && existing.expiresAtMs > now ? existing : { value: 0, expiresAtMs: now + ttlMs };
+    counter.value += amount;
+    data.counters[key] = counter;
+    // Drop expired counters so long-running processes don't accumulate them
+    for (const [k, c] of Object.entries(data.counters)) {
+        if (c.expiresAtMs <= now) delete data.counters[k];
+    }
+    return counter.value;
+}
+
+function commitToData(
+    data: MemoryData,
+    canvasId: string,
+    state: CanvasState,
+    options?: { expectedVersion?: number; events?: CanvasEvent[] }
+): CommitResult | null {
+    const canvas = canvasInData(data, canvasId);
+    if (options?.expectedVersion !== undefined && options.expectedVersion !== canvas.version) {
+        return null;
+    }
+    canvas.state = structuredClone(state);
+    canvas.version += 1;
+    canvas.events.push(...(options?.events ?? []).map((e) => JSON.stringify(e)));
+    return { version: canvas.version, eventCount: countInData(canvas) };
+}
+
+function countInData(canvas: CanvasData | undefined): number {
+    return canvas ? (canvas.firstEventId ?? 0) + canvas.events.length : 0;
+}
+
+function readFromData(canvas: CanvasData | undefined, start: number, stop: number): EventRange {
+    return readRetained(canvas?.events ?? [], canvas?.firstEventId ?? 0, start, stop);
+}
+
+// Returns whether anything was dropped
+function trimInData(canvas: CanvasData | undefined, beforeId: number): boolean {
+    if (!canvas) return false;
+    const firstId = canvas.firstEventId ?? 0;
+    const drop = Math.min(beforeId - firstId, canvas.events.length);
+    if (drop <= 0) return false;
+    canvas.events.splice(0, drop);
+    canvas.firstEventId = firstId + drop;
+    return true;
+}
+
+export function createMemoryStore(data: MemoryData = emptyData()): CanvasStore {
+    return {
+        async readState(canvasId) {
+            const canvas = peekCanvas(data, canvasId);
+            return canvas?.state ? { state: structuredClone(canvas.state), version: canvas.version } : null;
+        },
+        async commitState(canvasId, state, options) {
+            return commitToData(data, canvasId, state, options);
+        },
+        async appendEvents(canvasId, events) {
+            canvasInData(data, canvasId).events.push(...events.map((e) => JSON.stringify(e)));
+        },
+        async countEvents(canvasId) {
+            return countInData(peekCanvas(data, canvasId));
+        },
+        async firstEventId(canvasId) {
+            return peekCanvas(data, canvasId)?.firstEventId ?? 0;
+        },
+        async readEvents(canvasId, start, stop) {
+            return readFromData(peekCanvas(data, canvasId), start, stop);
+        },
+        async trimEvents(canvasId, beforeId) {
+            trimInData(peekCanvas(data, canvasId), beforeId);
+        },
+        async incrementCounter(key, amount, ttlMs) {
+            return incrementInData(data, key, amount, ttlMs);
+        },
+        async readHash<T>(key: string) {
+            return structuredClone(data.hashes[key] ?? {}) as Record<string, T>;
+        },
+        async readHashField<T>(key: string, field: string) {
+            const value = data.hashes[key]?.[field];
+            return value === undefined ? null : (structuredClone(value) as T);
+        },
+        async writeHashField(key, field, value) {
+            writeHashFieldInData(data, key, field, value);
+        },
+        async deleteHashField(key, field) {
+            return deleteHashFieldInData(data, key, field);
+        },
+    };
+}
+
+// Persists everything into a single JSON file. Operations are serialized within
+// the process; the file backend is meant for local development, not for several
+// processes sharing one file.
+export function createFileStore(filePath: string): CanvasStore {
+    let queue: Promise<unknown> = Promise.resolve();
+
+    function serialize<T>(op: () => Promise<T>): Promise<T> {
+        const next = queue.then(op, op);
+        queue = next.catch(() => undefined);
+        return next;
+    }
+
+    async function load(): Promise<MemoryData> {
+        try {
+            const text = await fs.readFile(filePath, "utf8");
+            const parsed = JSON.parse(text) as Partial<MemoryData> & Partial<CanvasData>;
+            const { state, version, events, ...rest } = parsed;
+            const data = { ...emptyData(), ...rest };
+            // Files written before canvases had ids hold the default canvas at the top level
+            if (state !== undefined && !data.canvases[DEFAULT_CANVAS_ID]) {
+                data.canvases[DEFAULT_CANVAS_ID] = { state, version: version ?? 0, events: events ?? [] };
+            }
+            return data;
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+                return emptyData();
+            }
+            throw err;
+        }
+    }
+
+    async function save(data: MemoryData): Promise<void> {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        // Write to a temp file first so a crash never leaves a truncated store behind
+        const tmpPath = `${filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tmpPath, JSON.stringify(data));
+        await fs.rename(tmpPath, filePath);
+    }
+
+    return {
+        readState(canvasId) {
+            return serialize(async () => {
+                const canvas = peekCanvas(await load(), canvasId);
+                return canvas?.state ? { state: canvas.state, version: canvas.version } : null;
+            });
+        },
+        commitState(canvasId, state, options) {
+            return serialize(async () => {
+                const data = await load();
+                const result = commitToData(data, canvasId, state, options);
+                if (result !== null) await save(data);
+                return result;
+            });
+        },
+        appendEvents(canvasId, events) {
+            return serialize(async () => {
+                if (events.length === 0) return;
+                const data = await load();
+                canvasInData(data, canvasId).events.push(...events.map((e) => JSON.stringify(e)));
+                await save(data);
+            });
+        },
+        countEvents(canvasId) {
+            return serialize(async () => countInData(peekCanvas(await load(), canvasId)));
+        },
+        firstEventId(canvasId) {
+            return serialize(async () => peekCanvas(await load(), canvasId)?.firstEventId ?? 0);
+        },
+        readEvents(canvasId, start, stop) {
+            return serialize(async () => readFromData(peekCanvas(await load(), canvasId), start, stop));
+        },
+        trimEvents(canvasId, beforeId) {
+            return serialize(async () => {
+                const data = await load();
+                if (trimInData(peekCanvas(data, canvasId), beforeId)) await save(data);
+            });
+        },
+        incrementCounter(key, amount, ttlMs) {
+            return serialize(async () => {
+                const data = await load();
+                const value = incrementInData(data, key, amount, ttlMs);
+                await save(data);
+                return value;
+            });
+        },
+        readHash<T>(key: string) {
+            return serialize(async () => ((await load()).hashes[key] ?? {}) as Record<string, T>);
+        },
+        readHashField<T>(key: string, field: string) {
+            return serialize(async () => ((await load()).hashes[key]?.[field] ?? null) as T | null);
+        },
+        writeHashField(key, field, value) {
+            return serialize(async () => {
+                const data = await load();
+                writeHashFieldInData(data, key, field, value);
+                await save(data);
+            });
+        },
+        deleteHashField(key, field) {
+            return serialize(async () => {
+                const data = await load();
+                const deleted = deleteHashFieldInData(data, key, field);
+                if (deleted) await save(data);
+                return deleted;
+            });
+        },
+    };
+}
+
+function resolveStoreKind(): CanvasStoreKind {
+    const configured = process.env.CANVAS_STORE?.trim().toLowerCase();
+    if (configured === "upstash" || configured === "memory" || configured === "file") {
+        return configured;
+    }
+    if (configured) {
+        throw new Error(`Unknown CANVAS_STORE "${configured}" (expected upstash, memory or file)`);
+    }
+    // Fall back to Upstash only when it is configured so local runs work offline
+    return process.env.UPSTASH_REDIS_REST_URL ? "upstash" : "memory";
+}
+
+export function createStoreFromEnv(): CanvasStore {
+    const kind = resolveStoreKind();
+    if (kind === "upstash") return createUpstashStore();
+    if (kind === "file") {
+        const filePath = process.env.CANVAS_STORE_PATH ?? path.join(process.cwd(), ".data", "canvas.json");
+        return createFileStore(filePath);
+    }
+    return createMemoryStore();
+}
+
+// Route handlers may be bundled separately, so the selected store lives on
+// globalThis to keep one instance (and one in-memory canvas) per process.
+const globalForStore = globalThis as typeof globalThis & { __canvasStore?: CanvasStore };
+
+export function getCanvasStore(): CanvasStore {
+    if (!globalForStore.__canvasStore) {
+        globalForStore.__canvasStore = createStoreFromEnv();
+    }
+    return globalForStore.__canvasStore;
+}
+
+// Swap the active store, e.g. to point scripts or tests at an isolated backend
+export function setCanvasStore(store: CanvasStore): void {
+    globalForStore.__canvasStore = store;
+}
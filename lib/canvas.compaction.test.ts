@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, setSystemTime, test } from "bun:test";
+import { canvasScopedKey, createMemoryStore, DEFAULT_CANVAS_ID, getCanvasStore, setCanvasStore } from "@/lib/canvas-store";
+import {
+    compactEventLog,
+    decodePixelsFromBase64,
+    getCanvasAt,
+    getCanvasEvents,
+    indexFor,
+    resetCanvas,
+    setPixels,
+    type CanvasEvent,
+    type CanvasState,
+} from "@/lib/canvas";
+
+// No cooldowns or batch caps, so tests can paint freely
+process.env.CANVAS_COOLDOWN_PIXELS = "0";
+process.env.CANVAS_MAX_BATCH_SIZE = "0";
+
+const [white, red, blue] = ["#ffffff", "#e50000", "#0083c7"];
+const policy = (maxEvents: number) => ({ maxEvents, maxAgeMs: 0 });
+
+function colorAt(state: CanvasState, x: number, y: number): string {
+    const { meta, pixelsBase64 } = state;
+    return meta.palette[decodePixelsFromBase64(pixelsBase64, meta.width * meta.height)[indexFor(x, y, meta.width)]];
+}
+
+async function paintAt(timestampMs: number, color: string, x: number, y: number) {
+    setSystemTime(new Date(timestampMs));
+    await setPixels({ updates: [{ x, y, color }], source: "script" });
+}
+
+async function snapshotIds(): Promise<number[]> {
+    const index = await getCanvasStore().readHash<number>(canvasScopedKey("canvas:snapshots:index:v1", DEFAULT_CANVAS_ID));
+    return Object.keys(index).map(Number).sort((a, b) => a - b);
+}
+
+beforeEach(async () => {
+    setCanvasStore(createMemoryStore());
+    setSystemTime(new Date(1000));
+    await resetCanvas({ width: 8, height: 8, palette: [white, red, blue] });
+});
+
+afterEach(() => {
+    setSystemTime();
+    delete process.env.CANVAS_SNAPSHOT_INTERVAL;
+});
+
+describe("compactEventLog", () => {
+    test("keeps replays after the compaction point exact", async () => {
+        // Events 0 and 1 create and reset the canvas, 2-7 are one write per second
+        for (let i = 0; i < 6; i++) await paintAt(2000 + i * 1000, i % 2 ? blue : red, i, 0);
+        setSystemTime(new Date(10_000));
+        const before = [await getCanvasAt(5500), await getCanvasAt(7500)];
+
+        const result = await compactEventLog({ policy: policy(3) });
+        expect(result).toMatchObject({ firstEventId: 5, removedEvents: 5, snapshotEventId: 4 });
+        expect((await getCanvasEvents({ after: -1 })).firstEventId).toBe(5);
+
+        expect(await getCanvasAt(5500)).toEqual(before[0]);
+        expect(await getCanvasAt(7500)).toEqual(before[1]);
+    });
+
+    test("resolves times before the compaction point to its snapshot", async () => {
+        for (let i = 0; i < 6; i++) await paintAt(2000 + i * 1000, red, i, 0);
+        setSystemTime(new Date(10_000));
+        await compactEventLog({ policy: policy(2) });
+
+        // The snapshot holds the canvas right after the last removed event (at 5000)
+        for (const t of [1500, 2500, 5000]) {
+            const past = await getCanvasAt(t);
+            expect([0, 1, 2, 3, 4].map((x) => colorAt(past, x, 0))).toEqual([red, red, red, red, white]);
+        }
+    });
+
+    test("prunes snapshots that no replay can start from", async () => {
+        process.env.CANVAS_SNAPSHOT_INTERVAL = "2";
+        for (let i = 0; i < 8; i++) await paintAt(2000 + i * 1000, i % 2 ? blue : red, i, 0);
+        expect(await snapshotIds()).toEqual([2, 4, 6, 8]);
+        setSystemTime(new Date(20_000));
+        const latest = await getCanvasAt(9500);
+
+        const result = await compactEventLog({ policy: policy(4) });
+        expect(result).toMatchObject({ firstEventId: 6, snapshotEventId: 5, removedSnapshots: 2 });
+        // The compaction snapshot is the replay base; later ones stay
+        expect(await snapshotIds()).toEqual([5, 6, 8]);
+        expect(await getCanvasAt(9500)).toEqual(latest);
+        // Before the compaction point: the canvas right after event 5, the fourth write
+        const early = await getCanvasAt(1500);
+        expect([colorAt(early, 3, 0), colorAt(early, 4, 0)]).toEqual([blue, white]);
+    });
+
+    test("does nothing while the log is within the policy", async () => {
+        await paintAt(2000, red, 0, 0);
+        expect(await compactEventLog({ policy: policy(10) })).toEqual({ firstEventId: 0, removedEvents: 0, removedSnapshots: 0 });
+    });
+
+    test("folds a log without a base event onto the stored size and palette", async () => {
+        setCanvasStore(createMemoryStore());
+        const palette = ["#000000", "#abcdef"];
+        const state: CanvasState = { meta: { width: 3, height: 1, palette }, pixelsBase64: Buffer.from([1, 1, 0]).toString("base64") };
+        const write = (x: number, timestampMs: number): CanvasEvent => ({
+            type: "pixel_set",
+            x,
+            y: 0,
+            color: palette[1],
+            colorIndex: 1,
+            timestampMs,
+            source: "script",
+        });
+        await getCanvasStore().commitState(DEFAULT_CANVAS_ID, state, { events: [write(0, 2000), write(1, 3000)] });
+        setSystemTime(new Date(10_000));
+
+        await compactEventLog({ policy: policy(1) });
+        const past = await getCanvasAt(2500);
+        expect(past.meta).toEqual({ width: 3, height: 1, palette });
+        expect([0, 1, 2].map((x) => colorAt(past, x, 0))).toEqual(["#abcdef", "#000000", "#000000"]);
+    });
+});
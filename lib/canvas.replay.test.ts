@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, setSystemTime, test } from "bun:test";
+import { createMemoryStore, DEFAULT_CANVAS_ID, getCanvasStore, setCanvasStore } from "@/lib/canvas-store";
+import {
+    decodePixelsFromBase64,
+    getCanvasAt,
+    getCanvasFrames,
+    indexFor,
+    resetCanvas,
+    resizeCanvas,
+    setPixels,
+    type CanvasEvent,
+    type CanvasState,
+} from "@/lib/canvas";
+
+// No cooldowns or batch caps, so tests can paint freely
+process.env.CANVAS_COOLDOWN_PIXELS = "0";
+process.env.CANVAS_MAX_BATCH_SIZE = "0";
+
+const [white, red, blue] = ["#ffffff", "#e50000", "#0083c7"];
+
+function colorAt(state: CanvasState, x: number, y: number): string {
+    const { meta, pixelsBase64 } = state;
+    return meta.palette[decodePixelsFromBase64(pixelsBase64, meta.width * meta.height)[indexFor(x, y, meta.width)]];
+}
+
+// Paints at a fixed time, so replays can be asked for the moments in between
+async function paintAt(timestampMs: number, color: string, x: number, y: number) {
+    setSystemTime(new Date(timestampMs));
+    await setPixels({ updates: [{ x, y, color }], source: "script" });
+}
+
+beforeEach(async () => {
+    setCanvasStore(createMemoryStore());
+    setSystemTime(new Date(1000));
+    await resetCanvas({ width: 8, height: 8, palette: [white, red, blue] });
+});
+
+afterEach(() => {
+    setSystemTime();
+    delete process.env.CANVAS_SNAPSHOT_INTERVAL;
+});
+
+describe("getCanvasAt", () => {
+    test("folds the writes logged up to the given time", async () => {
+        await paintAt(2000, red, 0, 0);
+        await paintAt(3000, blue, 0, 0);
+        await paintAt(4000, red, 1, 0);
+        setSystemTime(new Date(10_000));
+
+        expect(colorAt(await getCanvasAt(1500), 0, 0)).toBe(white);
+        expect(colorAt(await getCanvasAt(2500), 0, 0)).toBe(red);
+        const at3500 = await getCanvasAt(3500);
+        expect(colorAt(at3500, 0, 0)).toBe(blue);
+        expect(colorAt(at3500, 1, 0)).toBe(white);
+        expect(colorAt(await getCanvasAt(4000), 1, 0)).toBe(red);
+    });
+
+    test("gives the same answers when replaying from snapshots", async () => {
+        process.env.CANVAS_SNAPSHOT_INTERVAL = "2";
+        for (let i = 0; i < 6; i++) await paintAt(2000 + i * 1000, i % 2 ? blue : red, i, 0);
+        setSystemTime(new Date(10_000));
+
+        const [early, middle, late] = await getCanvasFrames([2500, 4500, 7500]);
+        expect(early.pixels.slice(0, 3)).toEqual(new Uint8Array([1, 0, 0]));
+        expect(middle.pixels.slice(0, 4)).toEqual(new Uint8Array([1, 2, 1, 0]));
+        expect(late.pixels.slice(0, 7)).toEqual(new Uint8Array([1, 2, 1, 2, 1, 2, 0]));
+    });
+
+    test("replays resizes with the size the canvas had at the time", async () => {
+        await paintAt(2000, red, 6, 6);
+        setSystemTime(new Date(3000));
+        await resizeCanvas({ width: 4, height: 4 });
+        await paintAt(4000, blue, 1, 1);
+        setSystemTime(new Date(10_000));
+
+        const before = await getCanvasAt(2500);
+        expect(before.meta).toMatchObject({ width: 8, height: 8 });
+        expect(colorAt(before, 6, 6)).toBe(red);
+        const after = await getCanvasAt(4500);
+        expect(after.meta).toMatchObject({ width: 4, height: 4 });
+        expect(colorAt(after, 1, 1)).toBe(blue);
+    });
+
+    test("replays a log without a base event onto the stored size and palette", async () => {
+        // An older log: pixel writes only, no canvas_reset to start from
+        setCanvasStore(createMemoryStore());
+        const palette = ["#000000", "#abcdef", "#123456"];
+        const state: CanvasState = {
+            meta: { width: 3, height: 2, palette },
+            pixelsBase64: Buffer.from([0, 0, 0, 0, 0, 2]).toString("base64"),
+        };
+        const write = (x: number, y: number, colorIndex: number, timestampMs: number): CanvasEvent => ({
+            type: "pixel_set",
+            x,
+            y,
+            color: palette[colorIndex],
+            colorIndex,
+            timestampMs,
+            source: "script",
+        });
+        await getCanvasStore().commitState(DEFAULT_CANVAS_ID, state, { events: [write(2, 1, 1, 2000), write(2, 1, 2, 3000)] });
+        setSystemTime(new Date(10_000));
+
+        const past = await getCanvasAt(2500);
+        expect(past.meta).toEqual({ width: 3, height: 2, palette });
+        expect(colorAt(past, 2, 1)).toBe("#abcdef");
+        expect(colorAt(await getCanvasAt(3500), 2, 1)).toBe("#123456");
+    });
+});
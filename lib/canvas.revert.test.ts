@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { createMemoryStore, DEFAULT_CANVAS_ID, getCanvasStore, setCanvasStore } from "@/lib/canvas-store";
+import {
+    DEFAULT_PALETTE,
+    decodePixelsFromBase64,
+    getCanvas,
+    indexFor,
+    resetCanvas,
+    revertRange,
+    setPalette,
+    setPixels,
+    undoLastBatch,
+    type CanvasEvent,
+    type CanvasState,
+} from "@/lib/canvas";
+
+// No cooldowns or batch caps, so tests can paint freely
+process.env.CANVAS_COOLDOWN_PIXELS = "0";
+process.env.CANVAS_MAX_BATCH_SIZE = "0";
+
+// The palette is stored normalized to lowercase
+const [white, red, blue] = ["#ffffff", "#e50000", "#0083c7"];
+
+async function colorAt(x: number, y: number): Promise<string> {
+    const { meta, pixelsBase64 } = await getCanvas();
+    return meta.palette[decodePixelsFromBase64(pixelsBase64, meta.width * meta.height)[indexFor(x, y, meta.width)]];
+}
+
+function paint(clientId: string, color: string, ...cells: [number, number][]) {
+    return setPixels({ updates: cells.map(([x, y]) => ({ x, y, color })), source: "mcp", clientId });
+}
+
+beforeEach(async () => {
+    setCanvasStore(createMemoryStore());
+    await resetCanvas({ width: 8, height: 8, palette: DEFAULT_PALETTE });
+});
+
+describe("undoLastBatch", () => {
+    test("restores the colors from before the caller's last batch", async () => {
+        await paint("a", red, [0, 0]);
+        await paint("a", blue, [0, 0], [1, 0]);
+        const result = await undoLastBatch({ clientId: "a" });
+        expect(result).toMatchObject({ pixelCount: 2, skippedPixels: 0 });
+        expect(await colorAt(0, 0)).toBe(red);
+        expect(await colorAt(1, 0)).toBe(white);
+
+        // The next undo walks further back
+        expect(await undoLastBatch({ clientId: "a" })).toMatchObject({ pixelCount: 1 });
+        expect(await colorAt(0, 0)).toBe(white);
+    });
+
+    test("skips pixels another client painted over since", async () => {
+        await paint("a", red, [0, 0], [1, 0]);
+        await paint("b", blue, [1, 0]);
+        const result = await undoLastBatch({ clientId: "a" });
+        expect(result).toMatchObject({ pixelCount: 1, skippedPixels: 1 });
+        expect(await colorAt(0, 0)).toBe(white);
+        expect(await colorAt(1, 0)).toBe(blue);
+    });
+
+    test("doesn't reach back across a reset", async () => {
+        await paint("a", red, [0, 0]);
+        await resetCanvas();
+        await paint("b", blue, [0, 0]);
+        const result = await undoLastBatch({ clientId: "a" });
+        expect(result).toMatchObject({ pixelCount: 0, skippedPixels: 1 });
+        expect(await colorAt(0, 0)).toBe(blue);
+    });
+
+    test("doesn't reach back across a palette change", async () => {
+        await paint("a", red, [0, 0]);
+        await setPalette({ palette: [red, blue], mode: "remap", fallbackIndex: 1 });
+        const result = await undoLastBatch({ clientId: "a" });
+        expect(result).toMatchObject({ pixelCount: 0, skippedPixels: 1 });
+        // Undoing would have brought back the removed white
+        expect((await getCanvas()).meta.palette).toEqual([red, blue]);
+        expect(await colorAt(0, 0)).toBe(red);
+    });
+
+    test("skips pixels whose old color the current palette rejects", async () => {
+        // A log written without palette events, e.g. by an older version
+        const state: CanvasState = {
+            meta: { width: 2, height: 1, palette: ["#000000", "#ffffff"], palettePolicy: "strict" },
+            pixelsBase64: Buffer.from([1, 1]).toString("base64"),
+        };
+        const write = (x: number, previousColor: string): CanvasEvent => ({
+            type: "pixel_set",
+            x,
+            y: 0,
+            color: "#ffffff",
+            colorIndex: 1,
+            previousColor,
+            timestampMs: Date.now(),
+            source: "mcp",
+            clientId: "a",
+            batchId: "batch-1",
+        });
+        setCanvasStore(createMemoryStore());
+        await getCanvasStore().commitState(DEFAULT_CANVAS_ID, state, { events: [write(0, "#ff0000"), write(1, "#000000")] });
+
+        const result = await undoLastBatch({ clientId: "a" });
+        expect(result).toMatchObject({ pixelCount: 1, skippedPixels: 1 });
+        expect(await colorAt(0, 0)).toBe("#ffffff");
+        expect(await colorAt(1, 0)).toBe("#000000");
+        expect((await getCanvas()).meta.palette).toEqual(["#000000", "#ffffff"]);
+    });
+});
+
+describe("revertRange", () => {
+    test("reverts every write of a client and skips overwritten pixels", async () => {
+        await paint("a", red, [0, 0]);
+        await paint("b", blue, [0, 0], [2, 0]);
+        await paint("a", red, [1, 0]);
+        await paint("a", blue, [3, 0]);
+        const result = await revertRange({ filter: { clientId: "a" } });
+        expect(result).toMatchObject({ pixelCount: 2, skippedPixels: 1 });
+        expect(await colorAt(0, 0)).toBe(blue);
+        expect(await colorAt(1, 0)).toBe(white);
+        expect(await colorAt(2, 0)).toBe(blue);
+        expect(await colorAt(3, 0)).toBe(white);
+    });
+
+    test("only reverts writes after the last palette change", async () => {
+        await paint("a", red, [0, 0]);
+        await setPalette({ policy: "strict" });
+        await paint("a", blue, [1, 0]);
+        const result = await revertRange({ filter: { clientId: "a" } });
+        expect(result).toMatchObject({ pixelCount: 1, skippedPixels: 1 });
+        expect(await colorAt(0, 0)).toBe(red);
+        expect(await colorAt(1, 0)).toBe(white);
+    });
+});
@@ -1,11 +1,21 @@
-import { Redis } from "@upstash/redis";
+import { randomBytes } from "crypto";
+import { EventEmitter } from "events";
+import { canvasScopedKey, DEFAULT_CANVAS_ID, getCanvasStore, resolveCanvasId, type CanvasStore, type StoredCanvas } from "@/lib/canvas-store";
+import { nearestPaletteIndex, parseColor } from "@/lib/color";
+import { floodFillRegion, rasterizeCircle, rasterizeLine, rasterizeRect, rasterizeText, type Point } from "@/lib/draw";
+import { blockingRegion, describeBlock, listRegions } from "@/lib/regions";
 
-const redis = Redis.fromEnv();
+// How writes treat colors that are not in the palette:
+// - open: append them (until the 256-color limit)
+// - strict: reject them
+// - nearest: snap them to the perceptually closest palette color
+export type PalettePolicy = "open" | "strict" | "nearest";
 
 export type CanvasMetadata = {
     width: number;
     height: number;
     palette: string[];
+    palettePolicy?: PalettePolicy; // defaults to "open"
 };
 
 export type CanvasState = {
@@ -13,11 +23,13 @@ export type CanvasState = {
     pixelsBase64: string; // Base64-encoded Uint8Array of color indices
 };
 
-const CANVAS_KEY = "canvas:v1";
-const EVENTS_LIST_KEY = "canvas:events:v1";
-
 export type PixelSource = "mcp" | "api" | "script" | "system";
-export type ToolName = "get_canvas" | "set_pixel" | "set_pixels" | "get_events";
+export type ToolName = "get_canvas" | "set_pixel" | "set_pixels" | "get_events" | "get_cooldown" | "who_painted"
+    | "reset_canvas" | "resize_canvas" | "set_palette" | "get_canvas_at" | "get_region"
+    | "draw_line" | "draw_rect" | "draw_circle" | "flood_fill" | "draw_text" | "stamp_image"
+    | "undo" | "revert_range" | "claim_region" | "list_regions" | "release_region"
+    | "list_canvases" | "create_canvas"
+    | "upload_template" | "list_templates" | "delete_template" | "template_diff" | "template_progress";
 
 export type PixelSetEvent = {
     type: "pixel_set";
@@ -27,6 +39,10 @@ export type PixelSetEvent = {
     colorIndex: number;
     timestampMs: number;
     source: PixelSource;
+    clientId?: string; // caller identity, see lib/identity.ts
+    batchId?: string; // shared by all pixels written in one call
+    previousColor?: string; // what the pixel held before, for undo
+    previousColorIndex?: number;
 };
 
 export type ToolUsedEvent = {
@@ -34,9 +50,118 @@ export type ToolUsedEvent = {
     toolName: ToolName;
     argsJson: string; // JSON string of tool arguments
     timestampMs: number;
+    clientId?: string;
+};
+
+export type ShapeKind = "line" | "rect" | "circle" | "flood_fill" | "text";
+
+// Logged after the pixel_set events a drawing tool produced, in the same commit:
+// the `pixelCount` events immediately before it in the log belong to this shape.
+export type ShapeDrawnEvent = {
+    type: "shape_drawn";
+    shape: ShapeKind;
+    paramsJson: string; // JSON string of the shape parameters
+    color: string;
+    colorIndex: number;
+    pixelCount: number;
+    timestampMs: number;
+    source: PixelSource;
+    clientId?: string;
+};
+
+// Logged after the pixel_set events of an undo or revert_range, which restore
+// previous colors under their own batchId
+export type PixelsRevertedEvent = {
+    type: "pixels_reverted";
+    batchId: string;
+    revertedBatchIds: string[];
+    filterJson?: string; // JSON string of the revert_range filter
+    pixelCount: number;
+    skippedPixels: number; // overwritten by others since, or without a recorded previous color
+    timestampMs: number;
+    source: PixelSource;
+    clientId?: string;
+};
+
+// Which edge or corner keeps its pixels in place when the canvas is resized
+export type ResizeAnchor = "top-left" | "top-right" | "bottom-left" | "bottom-right" | "center";
+
+export type CanvasResetEvent = {
+    type: "canvas_reset";
+    width: number;
+    height: number;
+    palette: string[];
+    palettePolicy?: PalettePolicy; // set when a canvas is created with a policy
+    timestampMs: number;
+    source: PixelSource;
+    clientId?: string;
+};
+
+export type CanvasResizedEvent = {
+    type: "canvas_resized";
+    fromWidth: number;
+    fromHeight: number;
+    width: number;
+    height: number;
+    anchor: ResizeAnchor;
+    timestampMs: number;
+    source: PixelSource;
+    clientId?: string;
+};
+
+export type PaletteSetEvent = {
+    type: "palette_set";
+    palette: string[];
+    policy: PalettePolicy;
+    indexMap: number[]; // old palette index → new palette index
+    remappedPixels: number; // pixels whose color was removed and replaced
+    timestampMs: number;
+    source: PixelSource;
+    clientId?: string;
+};
+
+// Logged when a backup is restored (scripts/import-canvas.ts); carries the whole
+// restored canvas so replay doesn't depend on snapshots
+export type CanvasRestoredEvent = {
+    type: "canvas_restored";
+    width: number;
+    height: number;
+    palette: string[];
+    palettePolicy?: PalettePolicy;
+    pixelsBase64: string;
+    timestampMs: number;
+    source: PixelSource;
+    clientId?: string;
 };
 
-export type CanvasEvent = PixelSetEvent | ToolUsedEvent;
+// Admin events that change the canvas shape or palette, not just pixels
+export type StructuralCanvasEvent = CanvasResetEvent | CanvasResizedEvent | PaletteSetEvent | CanvasRestoredEvent;
+
+export type CanvasEvent = PixelSetEvent | ToolUsedEvent | ShapeDrawnEvent | PixelsRevertedEvent | StructuralCanvasEvent;
+
+export const CANVAS_EVENT_TYPE_NAMES = [
+    "pixel_set",
+    "tool_used",
+    "shape_drawn",
+    "pixels_reverted",
+    "canvas_reset",
+    "canvas_resized",
+    "palette_set",
+    "canvas_restored",
+] as const satisfies readonly CanvasEvent["type"][];
+
+const CANVAS_EVENT_TYPES: ReadonlySet<string> = new Set<string>(CANVAS_EVENT_TYPE_NAMES);
+
+export function isCanvasEventType(value: string): value is CanvasEvent["type"] {
+    return CANVAS_EVENT_TYPES.has(value);
+}
+
+export function isStructuralEvent(event: CanvasEvent): event is StructuralCanvasEvent {
+    return event.type === "canvas_reset" || event.type === "canvas_resized" || event.type === "palette_set" || event.type === "canvas_restored";
+}
+
+// Events read back from the log carry their position in it as a stable id
+export type LoggedCanvasEvent = CanvasEvent & { id: number };
 
 // Small, opinionated default palette (inspired by r/place palettes)
 export const DEFAULT_PALETTE: string[] = [
@@ -93,77 +218,320 @@ function normalizeColorString(input: string): string {
     return trimmed;
 }
 
-function ensureColorInPalette(palette: string[], color: string): { updatedPalette: string[]; colorIndex: number } {
+// Why ensureColorInPalette refused a color; lets batch writes report it per pixel
+class PaletteColorError extends Error {
+    readonly code: "palette_full" | "not_in_palette" | "invalid_color";
+
+    constructor(code: PaletteColorError["code"], message: string) {
+        super(message);
+        this.name = "PaletteColorError";
+        this.code = code;
+    }
+}
+
+function ensureColorInPalette(
+    palette: string[],
+    color: string,
+    policy: PalettePolicy = "open"
+): { updatedPalette: string[]; colorIndex: number } {
     const normalized = normalizeColorString(color);
     const existingIndex = palette.findIndex((c) => normalizeColorString(c) === normalized);
     if (existingIndex !== -1) {
         return { updatedPalette: palette, colorIndex: existingIndex };
     }
-    if (palette.length >= 256) {
-        throw new Error("Palette is full (max 256 colors due to Uint8Array storage)");
+    if (policy === "open") {
+        if (palette.length >= 256) {
+            throw new PaletteColorError("palette_full", "Palette is full (max 256 colors due to Uint8Array storage)");
+        }
+        const updatedPalette = [...palette, normalized];
+        return { updatedPalette, colorIndex: updatedPalette.length - 1 };
+    }
+
+    const parsed = parseColor(normalized);
+    if (!parsed) {
+        throw new PaletteColorError("invalid_color", `Unrecognized color "${color}" (use hex, rgb(), hsl() or a CSS color name)`);
+    }
+    if (policy === "strict") {
+        // Same color spelled differently (e.g. "red" for "#ff0000") still counts as in the palette
+        const sameIndex = palette.findIndex((c) => {
+            const entry = parseColor(c);
+            return entry !== null && entry.r === parsed.r && entry.g === parsed.g && entry.b === parsed.b;
+        });
+        if (sameIndex === -1) {
+            throw new PaletteColorError("not_in_palette", `Color ${normalized} is not in the palette (strict palette policy): ${palette.join(", ")}`);
+        }
+        return { updatedPalette: palette, colorIndex: sameIndex };
+    }
+    const nearest = nearestPaletteIndex(palette, parsed);
+    if (nearest === -1) {
+        throw new PaletteColorError("not_in_palette", "Palette has no parseable colors to snap to");
+    }
+    return { updatedPalette: palette, colorIndex: nearest };
+}
+
+// In-process notifications for freshly logged events. Kept on globalThis so that
+// every route bundle in this process shares one emitter.
+const globalForEvents = globalThis as typeof globalThis & { __canvasEventsEmitter?: EventEmitter };
+const canvasEventsEmitter = (globalForEvents.__canvasEventsEmitter ??= new EventEmitter().setMaxListeners(0));
+
+// Calls the listener after events were appended to the canvas's log by this process.
+// Other instances sharing the store are not observed; poll getCanvasEventsAfter to
+// cover those.
+export function subscribeToCanvasEvents(listener: () => void, canvasId?: string): () => void {
+    const id = resolveCanvasId(canvasId);
+    const onEvents = (eventsCanvasId: string) => {
+        if (eventsCanvasId === id) listener();
+    };
+    canvasEventsEmitter.on("events", onEvents);
+    return () => {
+        canvasEventsEmitter.off("events", onEvents);
+    };
+}
+
+function notifyCanvasEvents(canvasId: string): void {
+    canvasEventsEmitter.emit("events", canvasId);
+}
+
+// Events outside a state commit go in with a single append
+async function appendEventsToLog(events: CanvasEvent[], canvasId: string): Promise<void> {
+    if (events.length === 0) return;
+    await getCanvasStore().appendEvents(canvasId, events);
+    notifyCanvasEvents(canvasId);
+}
+
+function parseStoredEvent(raw: unknown): CanvasEvent | undefined {
+    let value: unknown = raw;
+    // Handle strings (possibly double-encoded JSON) and already-parsed objects
+    for (let i = 0; i < 2; i++) {
+        if (typeof value === "string") {
+            try {
+                value = JSON.parse(value);
+                continue;
+            } catch {
+                break;
+            }
+        }
+        break;
+    }
+    if (!value || typeof value !== "object") return undefined;
+    const type = (value as { type?: string }).type;
+    if (typeof type === "string" && CANVAS_EVENT_TYPES.has(type)) return value as CanvasEvent;
+    return undefined;
+}
+
+function parseStoredEvents(values: unknown[], firstId: number): LoggedCanvasEvent[] {
+    const events: LoggedCanvasEvent[] = [];
+    values.forEach((raw, offset) => {
+        const event = parseStoredEvent(raw);
+        if (event) events.push({ ...event, id: firstId + offset });
+    });
+    return events;
+}
+
+// Retained events with ids from start to stop; ids before the oldest retained event are skipped
+async function readLogRange(canvasId: string, start: number, stop: number): Promise<LoggedCanvasEvent[]> {
+    const range = await getCanvasStore().readEvents(canvasId, start, stop);
+    return parseStoredEvents(range.events, range.startId);
+}
+
+// All conditions must hold. Events without the field a condition looks at (e.g.
+// tool_used events have no source) don't match it; `region` matches pixel_set only.
+export type CanvasEventFilter = {
+    types?: CanvasEvent["type"][];
+    sources?: PixelSource[];
+    tools?: string[];
+    clientId?: string;
+    fromMs?: number;
+    toMs?: number;
+    region?: { x: number; y: number; width: number; height: number };
+};
+
+export type CanvasEventPage = {
+    events: LoggedCanvasEvent[]; // oldest first
+    // Set when the scan stopped before the end of the log: pass it as `after`
+    // (or `before`, matching the request) to fetch the next page
+    nextCursor?: number;
+    firstEventId: number; // oldest retained event; older ones were compacted into snapshots
+    latestEventId: number;
+};
+
+export const DEFAULT_EVENT_PAGE_SIZE = 100;
+export const MAX_EVENT_PAGE_SIZE = 1000;
+// Events examined per page at most, so a sparse filter can't walk the whole log in one call
+const MAX_EVENT_PAGE_SCAN = 20_000;
+const EVENT_SCAN_CHUNK = 1000;
+
+function matchesEventFilter(event: CanvasEvent, filter: CanvasEventFilter): boolean {
+    if (filter.types && !filter.types.includes(event.type)) return false;
+    if (filter.sources && !("source" in event && filter.sources.includes(event.source))) return false;
+    if (filter.tools && !(event.type === "tool_used" && filter.tools.includes(event.toolName))) return false;
+    if (filter.clientId !== undefined && event.clientId !== filter.clientId) return false;
+    if (filter.fromMs !== undefined && event.timestampMs < filter.fromMs) return false;
+    if (filter.toMs !== undefined && event.timestampMs > filter.toMs) return false;
+    if (filter.region) {
+        const { x, y, width, height } = filter.region;
+        if (event.type !== "pixel_set" || event.x < x || event.y < y || event.x >= x + width || event.y >= y + height) return false;
     }
-    const updatedPalette = [...palette, normalized];
-    return { updatedPalette, colorIndex: updatedPalette.length - 1 };
-}
-
-async function appendEventToLog(event: CanvasEvent): Promise<void> {
-    await redis.rpush(EVENTS_LIST_KEY, JSON.stringify(event));
-}
-
-export async function getCanvasEvents(params?: { limit?: number }): Promise<CanvasEvent[]> {
-    const limit = params?.limit;
-    if (typeof limit === "number" && limit > 0) {
-        const length = await redis.llen(EVENTS_LIST_KEY);
-        const start = Math.max(0, length - limit);
-        const values: unknown[] = await redis.lrange(EVENTS_LIST_KEY, start, length - 1);
-        return values
-            .map((raw): CanvasEvent | undefined => {
-                let value: unknown = raw;
-                // Handle strings (possibly double-encoded JSON) and already-parsed objects
-                for (let i = 0; i < 2; i++) {
-                    if (typeof value === "string") {
-                        try {
-                            value = JSON.parse(value);
-                            continue;
-                        } catch {
-                            break;
-                        }
-                    }
+    return true;
+}
+
+// One page of matching events. With `after` the page holds the first matches
+// after that id; otherwise the last matches before `before` (default: the end
+// of the log). Either way the page is sorted oldest first.
+export async function getCanvasEvents(params?: {
+    limit?: number;
+    before?: number;
+    after?: number;
+    filter?: CanvasEventFilter;
+    canvasId?: string;
+}): Promise<CanvasEventPage> {
+    const store = getCanvasStore();
+    const canvasId = resolveCanvasId(params?.canvasId);
+    const limit = Math.max(1, Math.min(MAX_EVENT_PAGE_SIZE, Math.floor(params?.limit ?? DEFAULT_EVENT_PAGE_SIZE)));
+    const filter = params?.filter ?? {};
+    if (params?.before !== undefined && params.after !== undefined) {
+        throw new Error("Pass either before or after, not both");
+    }
+    const firstId = await store.firstEventId(canvasId);
+    const length = await store.countEvents(canvasId);
+    const events: LoggedCanvasEvent[] = [];
+
+    if (params?.after !== undefined) {
+        // cursor: the last examined id
+        let cursor = Math.max(firstId - 1, Math.floor(params.after));
+        const scanEnd = Math.min(length - 1, cursor + MAX_EVENT_PAGE_SCAN);
+        while (cursor < scanEnd && events.length < limit) {
+            const stop = Math.min(scanEnd, cursor + EVENT_SCAN_CHUNK);
+            let reached = stop;
+            for (const event of await readLogRange(canvasId, cursor + 1, stop)) {
+                if (!matchesEventFilter(event, filter)) continue;
+                events.push(event);
+                if (events.length === limit) {
+                    reached = event.id;
                     break;
                 }
-                if (!value || typeof value !== "object") return undefined;
-                const type = (value as { type?: string }).type;
-                if (type === "pixel_set") return value as PixelSetEvent;
-                if (type === "tool_used") return value as ToolUsedEvent;
-                return undefined;
-            })
-            .filter((e): e is CanvasEvent => Boolean(e));
-    }
-    const all: unknown[] = await redis.lrange(EVENTS_LIST_KEY, 0, -1);
-    return all
-        .map((raw): CanvasEvent | undefined => {
-            let value: unknown = raw;
-            for (let i = 0; i < 2; i++) {
-                if (typeof value === "string") {
-                    try {
-                        value = JSON.parse(value);
-                        continue;
-                    } catch {
-                        break;
-                    }
-                }
+            }
+            cursor = reached;
+        }
+        const nextCursor = cursor < length - 1 ? cursor : undefined;
+        return { events, nextCursor, firstEventId: firstId, latestEventId: length - 1 };
+    }
+
+    // cursor: the lowest examined id
+    let cursor = Math.min(length, Math.floor(params?.before ?? length));
+    const scanStart = Math.max(firstId, cursor - MAX_EVENT_PAGE_SCAN);
+    while (cursor > scanStart && events.length < limit) {
+        const start = Math.max(scanStart, cursor - EVENT_SCAN_CHUNK);
+        const chunk = await readLogRange(canvasId, start, cursor - 1);
+        let reached = start;
+        for (let i = chunk.length - 1; i >= 0; i--) {
+            if (!matchesEventFilter(chunk[i], filter)) continue;
+            events.push(chunk[i]);
+            if (events.length === limit) {
+                reached = chunk[i].id;
                 break;
             }
-            if (!value || typeof value !== "object") return undefined;
-            const type = (value as { type?: string }).type;
-            if (type === "pixel_set") return value as PixelSetEvent;
-            if (type === "tool_used") return value as ToolUsedEvent;
-            return undefined;
-        })
-        .filter((e): e is CanvasEvent => Boolean(e));
+        }
+        cursor = reached;
+    }
+    const nextCursor = cursor > firstId ? cursor : undefined;
+    return { events: events.reverse(), nextCursor, firstEventId: firstId, latestEventId: length - 1 };
+}
+
+const PIXEL_SOURCES: readonly PixelSource[] = ["mcp", "api", "script", "system"];
+
+function parseEventIdParam(name: string, value: string | null): number | undefined {
+    if (value === null || value.trim() === "") return undefined;
+    const id = Number(value);
+    if (!Number.isInteger(id) || id < -1) throw new Error(`${name} must be an event id`);
+    return id;
+}
+
+function parseListParam(params: URLSearchParams, name: string): string[] | undefined {
+    const values = params.getAll(name).flatMap((v) => v.split(",")).map((v) => v.trim()).filter(Boolean);
+    return values.length > 0 ? values : undefined;
+}
+
+// Reads getCanvasEvents parameters from a query string: limit, before, after,
+// type, source and tool (repeatable or comma-separated), clientId, from and to
+// (epoch ms or ISO 8601) and a region as x, y, w, h. Throws on invalid values.
+export function parseCanvasEventQuery(params: URLSearchParams): {
+    limit?: number;
+    before?: number;
+    after?: number;
+    filter: CanvasEventFilter;
+} {
+    const limitParam = params.get("limit");
+    const limit = limitParam ? Number(limitParam) : undefined;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+        throw new Error("limit must be a positive integer");
+    }
+    const before = parseEventIdParam("before", params.get("before"));
+    const after = parseEventIdParam("after", params.get("after"));
+    if (before !== undefined && after !== undefined) {
+        throw new Error("Pass either before or after, not both");
+    }
+
+    const filter: CanvasEventFilter = {};
+    const types = parseListParam(params, "type");
+    if (types) {
+        const unknown = types.find((t) => !isCanvasEventType(t));
+        if (unknown !== undefined) throw new Error(`Unknown event type "${unknown}"`);
+        filter.types = types as CanvasEvent["type"][];
+    }
+    const sources = parseListParam(params, "source");
+    if (sources) {
+        const unknown = sources.find((s) => !PIXEL_SOURCES.includes(s as PixelSource));
+        if (unknown !== undefined) throw new Error(`Unknown source "${unknown}"`);
+        filter.sources = sources as PixelSource[];
+    }
+    filter.tools = parseListParam(params, "tool");
+    const clientId = params.get("clientId");
+    if (clientId) filter.clientId = clientId;
+    for (const [name, key] of [["from", "fromMs"], ["to", "toMs"]] as const) {
+        const value = params.get(name);
+        if (value === null) continue;
+        const ms = parseTimestamp(value);
+        if (ms === undefined) throw new Error(`${name} must be epoch milliseconds or an ISO 8601 date`);
+        filter[key] = ms;
+    }
+    const region = ["x", "y", "w", "h"].map((name) => params.get(name));
+    if (region.some((v) => v !== null)) {
+        const [x, y, width, height] = region.map((v) => (v === null || v.trim() === "" ? NaN : Number(v)));
+        if (![x, y, width, height].every(Number.isInteger) || width <= 0 || height <= 0) {
+            throw new Error("A region needs integer x and y and positive integer w and h");
+        }
+        filter.region = { x, y, width, height };
+    }
+    return { limit, before, after, filter };
+}
+
+// Id of the newest logged event, or -1 when the log is empty
+export async function getLatestCanvasEventId(canvasId?: string): Promise<number> {
+    return (await getCanvasStore().countEvents(resolveCanvasId(canvasId))) - 1;
 }
 
-export async function logToolUsed(toolName: ToolName, args: unknown): Promise<void> {
+// Id of the oldest event still in the log (0 unless the log was compacted)
+export async function getFirstCanvasEventId(canvasId?: string): Promise<number> {
+    return getCanvasStore().firstEventId(resolveCanvasId(canvasId));
+}
+
+// Events logged after the given id, oldest first, at most `limit` of them
+export async function getCanvasEventsAfter(
+    afterId: number,
+    params?: { limit?: number; canvasId?: string }
+): Promise<LoggedCanvasEvent[]> {
+    const store = getCanvasStore();
+    const canvasId = resolveCanvasId(params?.canvasId);
+    const limit = params?.limit ?? 1000;
+    const start = Math.max(await store.firstEventId(canvasId), Math.floor(afterId) + 1);
+    const length = await store.countEvents(canvasId);
+    if (start >= length) return [];
+    const stop = Math.min(length - 1, start + limit - 1);
+    return readLogRange(canvasId, start, stop);
+}
+
+export async function logToolUsed(toolName: ToolName, args: unknown, clientId?: string, canvasId?: string): Promise<void> {
     let argsJson = "{}";
     try {
         argsJson = JSON.stringify(args);
@@ -175,72 +543,291 @@ export async function logToolUsed(toolName: ToolName, args: unknown): Promise<vo
         toolName,
         argsJson,
         timestampMs: Date.now(),
+        clientId,
     };
-    await appendEventToLog(event);
+    const id = resolveCanvasId(canvasId);
+    // Calls naming a canvas that doesn't exist fail right after; don't start a log for it
+    if (!(await canvasExists(id))) return;
+    await appendEventsToLog([event], id);
 }
 
-export async function getCanvas(): Promise<CanvasState> {
-    const state = (await redis.get<CanvasState>(CANVAS_KEY));
-    if (state) {
-        return state;
-    }
-    // Initialize a default canvas if none exists
+const DEFAULT_WIDTH = 64;
+const DEFAULT_HEIGHT = 64;
+
+function defaultCanvasState(): CanvasState {
     const meta: CanvasMetadata = {
-        width: 64,
-        height: 64,
+        width: DEFAULT_WIDTH,
+        height: DEFAULT_HEIGHT,
         palette: DEFAULT_PALETTE,
     };
     const pixels = createEmptyPixels(meta.width, meta.height, 0);
-    const pixelsBase64 = encodePixelsToBase64(pixels);
-    const initial: CanvasState = { meta, pixelsBase64 };
-    await redis.set(CANVAS_KEY, initial);
-    return initial;
+    return { meta, pixelsBase64: encodePixelsToBase64(pixels) };
 }
 
-export async function setPixel(params: {
-    x: number;
-    y: number;
-    color: string;
-    source?: PixelSource;
-}): Promise<CanvasState> {
-    const { x, y, color, source } = params;
-    const current = await getCanvas();
-    const { width, height } = current.meta;
-    let { palette } = current.meta;
+// Stores a canvas that does not exist yet, logging its creation as the first
+// epoch. Returns null when another writer created it first.
+async function initializeCanvas(canvasId: string, initial: CanvasState, source: PixelSource, clientId?: string): Promise<StoredCanvas | null> {
+    const event: CanvasResetEvent = {
+        type: "canvas_reset",
+        width: initial.meta.width,
+        height: initial.meta.height,
+        palette: initial.meta.palette,
+        palettePolicy: initial.meta.palettePolicy,
+        timestampMs: Date.now(),
+        source,
+        clientId,
+    };
+    const committed = await getCanvasStore().commitState(canvasId, initial, { expectedVersion: 0, events: [event] });
+    if (committed === null) return null;
+    notifyCanvasEvents(canvasId);
+    return { state: initial, version: committed.version };
+}
 
-    if (x < 0 || y < 0 || x >= width || y >= height) {
-        throw new Error("Pixel coordinates out of bounds");
+// Reads the stored canvas with its version. The default canvas is created on first
+// access; other canvases must be created with createCanvas.
+async function loadCanvas(canvasId: string): Promise<StoredCanvas> {
+    const store = getCanvasStore();
+    const stored = await store.readState(canvasId);
+    if (stored) {
+        return stored;
+    }
+    if (canvasId !== DEFAULT_CANVAS_ID) {
+        throw new Error(`Canvas "${canvasId}" does not exist`);
     }
+    const initialized = await initializeCanvas(canvasId, defaultCanvasState(), "system");
+    if (initialized) return initialized;
+    // Another writer initialized the canvas first; use theirs
+    const existing = await store.readState(canvasId);
+    if (existing) return existing;
+    throw new Error("Canvas initialization conflicted but no canvas was stored");
+}
+
+export async function getCanvas(canvasId?: string): Promise<CanvasState> {
+    return (await loadCanvas(resolveCanvasId(canvasId))).state;
+}
+
+const MAX_COMMIT_ATTEMPTS = 25;
 
-    if (typeof color !== "string" || color.trim().length === 0) {
-        throw new Error("Color must be a non-empty string");
+// Optimistic concurrency: recompute the write from the latest state and commit
+// it only if nobody else committed in between, retrying with jittered backoff.
+async function commitCanvasUpdate<T extends { state: CanvasState; events: CanvasEvent[] }>(
+    canvasId: string,
+    update: (current: CanvasState) => T
+): Promise<T> {
+    const store = getCanvasStore();
+    for (let attempt = 0; attempt < MAX_COMMIT_ATTEMPTS; attempt++) {
+        const { state: current, version } = await loadCanvas(canvasId);
+        const next = update(current);
+        const committed = await store.commitState(canvasId, next.state, { expectedVersion: version, events: next.events });
+        if (committed !== null) {
+            if (next.events.length > 0) {
+                notifyCanvasEvents(canvasId);
+                await maybeWriteSnapshot(canvasId, next.state, committed.eventCount - 1, next.events[next.events.length - 1].timestampMs);
+            }
+            return next;
+        }
+        const backoffMs = Math.min(200, 5 * 2 ** attempt) * Math.random();
+        await new Promise((resolve) => setTimeout(resolve, backoffMs));
     }
+    throw new Error("Canvas is busy, too many concurrent writes; please retry");
+}
 
-    const ensured = ensureColorInPalette(palette, color);
-    palette = ensured.updatedPalette;
-    const indexToSet = ensured.colorIndex;
+export type CooldownConfig = {
+    pixelsPerWindow: number; // 0 disables the per-window budget
+    windowMs: number;
+    maxBatchSize: number; // 0 disables the per-call cap
+};
 
-    const pixels = decodePixelsFromBase64(current.pixelsBase64, width * height);
-    pixels[indexFor(x, y, width)] = indexToSet;
+function readIntEnv(name: string, fallback: number): number {
+    const raw = process.env[name];
+    if (raw === undefined || raw.trim() === "") return fallback;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 0) {
+        throw new Error(`${name} must be a non-negative integer`);
+    }
+    return value;
+}
 
-    const updated: CanvasState = {
-        meta: { ...current.meta, palette },
-        pixelsBase64: encodePixelsToBase64(pixels),
+export function getCooldownConfig(): CooldownConfig {
+    return {
+        pixelsPerWindow: readIntEnv("CANVAS_COOLDOWN_PIXELS", 100),
+        windowMs: Math.max(1, readIntEnv("CANVAS_COOLDOWN_WINDOW_MS", 60_000)),
+        maxBatchSize: readIntEnv("CANVAS_MAX_BATCH_SIZE", 100),
     };
-    await redis.set(CANVAS_KEY, updated);
-    // Append event to log for replay
-    const normalizedColor = palette[indexToSet];
-    const event: PixelSetEvent = {
-        type: "pixel_set",
-        x,
-        y,
-        color: normalizedColor,
-        colorIndex: indexToSet,
-        timestampMs: Date.now(),
-        source: source ?? "system",
+}
+
+export type CooldownStatus = {
+    clientId: string;
+    limit: number; // pixels per window, 0 when unlimited
+    used: number;
+    remaining: number | null; // null when unlimited
+    windowMs: number;
+    resetAtMs: number; // when the current window ends and the budget refills
+    maxBatchSize: number;
+};
+
+// Thrown when a client has not enough pixel budget left in the current window
+export class CooldownError extends Error {
+    readonly status: CooldownStatus;
+    readonly requested: number;
+
+    constructor(status: CooldownStatus, requested: number) {
+        super(
+            `Cooldown: ${requested} pixel(s) requested but only ${status.remaining} of ${status.limit} left; ` +
+            `try again after ${new Date(status.resetAtMs).toISOString()}`
+        );
+        this.name = "CooldownError";
+        this.status = status;
+        this.requested = requested;
+    }
+
+    get retryAtMs(): number {
+        return this.status.resetAtMs;
+    }
+}
+
+// Fixed windows aligned to the epoch keep this to a single counter per client
+function cooldownWindow(config: CooldownConfig, now: number): { key: (clientId: string) => string; resetAtMs: number } {
+    const windowStart = Math.floor(now / config.windowMs) * config.windowMs;
+    return {
+        key: (clientId) => `canvas:cooldown:v1:${clientId}:${windowStart}`,
+        resetAtMs: windowStart + config.windowMs,
+    };
+}
+
+function toCooldownStatus(clientId: string, config: CooldownConfig, used: number, resetAtMs: number): CooldownStatus {
+    const limit = config.pixelsPerWindow;
+    return {
+        clientId,
+        limit,
+        used,
+        remaining: limit > 0 ? Math.max(0, limit - used) : null,
+        windowMs: config.windowMs,
+        resetAtMs,
+        maxBatchSize: config.maxBatchSize,
+    };
+}
+
+export async function getCooldown(clientId: string): Promise<CooldownStatus> {
+    const config = getCooldownConfig();
+    const window = cooldownWindow(config, Date.now());
+    const used = config.pixelsPerWindow > 0
+        ? await getCanvasStore().incrementCounter(window.key(clientId), 0, config.windowMs)
+        : 0;
+    return toCooldownStatus(clientId, config, used, window.resetAtMs);
+}
+
+// Reserves budget for `count` pixels and returns a function that gives back
+// some or (by default) all of it, for pixels that were not written after all.
+async function consumePaintBudget(clientId: string, count: number): Promise<(pixels?: number) => Promise<void>> {
+    const config = getCooldownConfig();
+    if (config.maxBatchSize > 0 && count > config.maxBatchSize) {
+        throw new Error(`Batch of ${count} pixels exceeds the limit of ${config.maxBatchSize} per call`);
+    }
+    if (config.pixelsPerWindow === 0) {
+        return async () => { };
+    }
+    const store = getCanvasStore();
+    const window = cooldownWindow(config, Date.now());
+    const key = window.key(clientId);
+    const used = await store.incrementCounter(key, count, config.windowMs);
+    if (used > config.pixelsPerWindow) {
+        const before = await store.incrementCounter(key, -count, config.windowMs);
+        throw new CooldownError(toCooldownStatus(clientId, config, before, window.resetAtMs), count);
+    }
+    return async (pixels = count) => {
+        if (pixels > 0) await store.incrementCounter(key, -pixels, config.windowMs);
+    };
+}
+
+// Runs a write under the client's cooldown budget; writes without a client are
+// not limited. `written` tells how many of the reserved pixels were actually
+// painted, the rest is refunded.
+async function withPaintBudget<T>(
+    clientId: string | undefined,
+    count: number,
+    write: () => Promise<T>,
+    written: (result: T) => number = () => count
+): Promise<T> {
+    if (!clientId) return write();
+    const refund = await consumePaintBudget(clientId, count);
+    let result: T;
+    try {
+        result = await write();
+    } catch (err) {
+        await refund();
+        throw err;
+    }
+    await refund(count - written(result));
+    return result;
+}
+
+// What a write did with one requested pixel; colorIndex is the palette entry
+// actually used, which differs from the requested color when it was snapped
+export type AppliedPixel = {
+    x: number;
+    y: number;
+    requestedColor: string;
+    color: string;
+    colorIndex: number;
+};
+
+// A requested pixel that was left alone without anything being wrong with it:
+// it already had that color, a later update in the same batch set it, or (for
+// guarded writes) it changed since the write was planned
+export type SkippedPixel = {
+    x: number;
+    y: number;
+    requestedColor: string;
+    code: "unchanged" | "superseded" | "changed";
+    reason: string;
+};
+
+// A requested pixel that could not be written
+export type RejectedPixel = {
+    x: number;
+    y: number;
+    requestedColor: string;
+    code: "out_of_bounds" | "invalid_color" | "not_in_palette" | "palette_full" | "region";
+    reason: string;
+    region?: string; // the protected region, for code "region"
+};
+
+export type PixelWriteResult = {
+    state: CanvasState; // for dry runs, the state the write would produce
+    applied: AppliedPixel[];
+    skipped: SkippedPixel[];
+    rejected: RejectedPixel[];
+    dryRun?: boolean;
+};
+
+// What set_pixel, set_pixels and the pixel route respond with: the outcome of
+// every requested pixel and the canvas metadata, rather than the full pixel data
+export function summarizePixelWrite({ state, applied, skipped, rejected, dryRun }: PixelWriteResult) {
+    return {
+        ...(dryRun ? { dryRun } : {}),
+        meta: state.meta,
+        counts: { applied: applied.length, skipped: skipped.length, rejected: rejected.length },
+        applied,
+        skipped,
+        rejected,
     };
-    await appendEventToLog(event);
-    return updated;
+}
+
+export async function setPixel(params: {
+    x: number;
+    y: number;
+    color: string;
+    source?: PixelSource;
+    clientId?: string; // recorded on the event and subject to cooldowns when set
+    canvasId?: string;
+}): Promise<PixelWriteResult> {
+    const { x, y, color, source, clientId, canvasId } = params;
+    const result = await writePixels({ updates: [{ x, y, color }], source, clientId, canvasId });
+    if (result.rejected.length > 0) {
+        throw new Error(`Pixel (${x}, ${y}) can't be painted: ${result.rejected[0].reason}`);
+    }
+    return result;
 }
 
 export type PixelUpdate = {
@@ -249,86 +836,1402 @@ export type PixelUpdate = {
     color: string;
 };
 
+// Without `partial`, an update that is out of bounds or has an unusable color
+// fails the whole batch; with it, such updates are rejected one by one and the
+// rest is written. Pixels in protected regions are always rejected one by one.
+// `dryRun` plans the write against the current canvas and reports the outcome
+// (collecting every rejection instead of failing) without writing or charging
+// cooldowns.
 export async function setPixels(params: {
     updates: PixelUpdate[];
     source?: PixelSource;
-}): Promise<CanvasState> {
-    const { updates, source } = params;
+    clientId?: string; // recorded on the events and subject to cooldowns when set
+    canvasId?: string;
+    partial?: boolean;
+    dryRun?: boolean;
+}): Promise<PixelWriteResult> {
+    const { updates } = params;
     if (!Array.isArray(updates) || updates.length === 0) {
         throw new Error("'updates' must be a non-empty array");
     }
+    return writePixels(params);
+}
 
-    const current = await getCanvas();
+// Pixel write with an optional guard: the pixel is skipped unless it still holds
+// palette index `expectIndex`, so writes planned from an earlier read never
+// clobber concurrent changes
+type GuardedPixelUpdate = PixelUpdate & { expectIndex?: number };
+
+function newBatchId(): string {
+    return randomBytes(6).toString("hex");
+}
+
+type PixelWritePlan = {
+    state: CanvasState;
+    events: CanvasEvent[];
+    applied: AppliedPixel[];
+    skipped: SkippedPixel[];
+    rejected: RejectedPixel[];
+};
+
+// Applies updates to a copy of `current` in order. Invalid updates throw unless
+// `partial` is set, in which case they are rejected individually. A pixel set
+// twice in one batch keeps the last color and logs a single pixel_set, whose
+// previousColor is the color from before the batch.
+function planPixelWrite(
+    current: CanvasState,
+    updates: GuardedPixelUpdate[],
+    options: { source?: PixelSource; clientId?: string; batchId: string; partial: boolean }
+): PixelWritePlan {
+    const { source, clientId, batchId, partial } = options;
     const { width, height } = current.meta;
     let { palette } = current.meta;
 
     // Decode once and apply all writes
-    const pixels = decodePixelsFromBase64(current.pixelsBase64, width * height);
+    const original = decodePixelsFromBase64(current.pixelsBase64, width * height);
+    const pixels = original.slice();
+    const now = Date.now();
+    const skipped: SkippedPixel[] = [];
+    const rejected: RejectedPixel[] = [];
+    // Latest write per pixel offset, in the order pixels were first written
+    const writes = new Map<number, { applied: AppliedPixel; event: PixelSetEvent }>();
+
+    const reject = (update: PixelUpdate, code: RejectedPixel["code"], reason: string) => {
+        if (!partial) throw new Error(reason);
+        rejected.push({ x: update.x, y: update.y, requestedColor: update.color, code, reason });
+    };
+    const skip = (update: PixelUpdate, code: SkippedPixel["code"], reason: string) => {
+        skipped.push({ x: update.x, y: update.y, requestedColor: update.color, code, reason });
+    };
 
     for (const update of updates) {
-        const { x, y, color } = update;
+        const { x, y, color, expectIndex } = update;
         if (!Number.isInteger(x) || !Number.isInteger(y) || x < 0 || y < 0 || x >= width || y >= height) {
-            throw new Error(`Pixel coordinates out of bounds: (${x}, ${y})`);
+            reject(update, "out_of_bounds", `Pixel coordinates out of bounds: (${x}, ${y})`);
+            continue;
         }
         if (typeof color !== "string" || color.trim().length === 0) {
-            throw new Error("Color must be a non-empty string");
+            reject(update, "invalid_color", "Color must be a non-empty string");
+            continue;
+        }
+        const offset = indexFor(x, y, width);
+        if (expectIndex !== undefined && original[offset] !== expectIndex) {
+            skip(update, "changed", "the pixel changed since the write was planned");
+            continue;
+        }
+
+        let colorIndex: number;
+        try {
+            const ensured = ensureColorInPalette(palette, color, current.meta.palettePolicy);
+            palette = ensured.updatedPalette;
+            colorIndex = ensured.colorIndex;
+        } catch (err) {
+            if (!(err instanceof PaletteColorError)) throw err;
+            reject(update, err.code, err.message);
+            continue;
         }
 
-        const ensured = ensureColorInPalette(palette, color);
-        palette = ensured.updatedPalette;
-        const indexToSet = ensured.colorIndex;
-        pixels[indexFor(x, y, width)] = indexToSet;
+        const earlier = writes.get(offset);
+        if (earlier) {
+            writes.delete(offset);
+            const { requestedColor } = earlier.applied;
+            skip({ x, y, color: requestedColor }, "superseded", "a later update in the same batch sets this pixel");
+        }
+        pixels[offset] = colorIndex;
+        const previousColorIndex = original[offset];
+        if (colorIndex === previousColorIndex) {
+            skip(update, "unchanged", "the pixel already has this color");
+            continue;
+        }
+        writes.set(offset, {
+            applied: { x, y, requestedColor: color, color: palette[colorIndex], colorIndex },
+            // Append an event per pixel for replay
+            event: {
+                type: "pixel_set",
+                x,
+                y,
+                color: palette[colorIndex],
+                colorIndex,
+                timestampMs: now,
+                source: source ?? "system",
+                clientId,
+                batchId,
+                previousColor: palette[previousColorIndex],
+                previousColorIndex,
+            },
+        });
     }
 
-    const updated: CanvasState = {
+    const applied = [...writes.values()].map((w) => w.applied);
+    const events: CanvasEvent[] = [...writes.values()].map((w) => w.event);
+    const state: CanvasState = {
         meta: { ...current.meta, palette },
         pixelsBase64: encodePixelsToBase64(pixels),
     };
-    await redis.set(CANVAS_KEY, updated);
+    return { state, events, applied, skipped, rejected };
+}
 
-    // Append an event per pixel for replay
-    const now = Date.now();
-    for (const update of updates) {
-        const ensured = ensureColorInPalette(palette, update.color);
-        const colorIndex = ensured.colorIndex;
-        const normalizedColor = palette[colorIndex];
-        const event: PixelSetEvent = {
-            type: "pixel_set",
-            x: update.x,
-            y: update.y,
-            color: normalizedColor,
-            colorIndex,
-            timestampMs: now,
-            source: source ?? "system",
-        };
-        await appendEventToLog(event);
+// Shared write path for single pixels, batches, drawing tools and reverts: one
+// atomic commit with a pixel_set event per changed pixel, followed by `trailer`
+// (e.g. a shape_drawn event) when any pixel was written. Pixels in regions the
+// client may not paint are rejected individually before the rest is charged and
+// written; like cooldowns, regions only apply to writes with a clientId. Unmetered
+// writes skip cooldowns and `ignoreRegions` skips the region check. Cooldowns
+// are only charged for the pixels actually written.
+async function writePixels(params: {
+    updates: GuardedPixelUpdate[];
+    source?: PixelSource;
+    clientId?: string;
+    canvasId?: string;
+    batchId?: string;
+    unmetered?: boolean;
+    ignoreRegions?: boolean;
+    partial?: boolean;
+    dryRun?: boolean;
+    trailer?: (applied: AppliedPixel[], timestampMs: number) => CanvasEvent;
+}): Promise<PixelWriteResult> {
+    const { source, clientId, trailer, dryRun = false } = params;
+    const canvasId = resolveCanvasId(params.canvasId);
+    const batchId = params.batchId ?? newBatchId();
+
+    let updates = params.updates;
+    const rejected: RejectedPixel[] = [];
+    if (clientId && !params.ignoreRegions) {
+        const regions = await listRegions(canvasId);
+        if (regions.length > 0) {
+            updates = updates.filter((update) => {
+                const region = blockingRegion(regions, update.x, update.y, clientId);
+                if (!region) return true;
+                rejected.push({ x: update.x, y: update.y, requestedColor: update.color, code: "region", region: region.name, reason: describeBlock(region) });
+                return false;
+            });
+        }
+    }
+    // A dry run reports every problem at once rather than failing on the first
+    const planOptions = { source, clientId, batchId, partial: dryRun || (params.partial ?? false) };
+
+    if (dryRun) {
+        const plan = planPixelWrite(await getCanvas(canvasId), updates, planOptions);
+        return { state: plan.state, applied: plan.applied, skipped: plan.skipped, rejected: [...rejected, ...plan.rejected], dryRun: true };
     }
+    if (updates.length === 0) {
+        return { state: await getCanvas(canvasId), applied: [], skipped: [], rejected };
+    }
+
+    const write = () => commitCanvasUpdate(canvasId, (current) => {
+        const plan = planPixelWrite(current, updates, planOptions);
+        if (trailer && plan.applied.length > 0) {
+            plan.events.push(trailer(plan.applied, plan.events[0].timestampMs));
+        }
+        return plan;
+    });
 
-    return updated;
+    const plan = params.unmetered
+        ? await write()
+        : await withPaintBudget(clientId, updates.length, write, (result) => result.applied.length);
+    return { state: plan.state, applied: plan.applied, skipped: plan.skipped, rejected: [...rejected, ...plan.rejected] };
 }
 
-export async function resetCanvas(params?: {
-    width?: number;
-    height?: number;
-    palette?: string[];
-}): Promise<CanvasState> {
-    const existing = await getCanvas();
-    const width = params?.width ?? existing.meta.width;
-    const height = params?.height ?? existing.meta.height;
-    const palette = params?.palette ?? existing.meta.palette;
+export type ShapeSpec =
+    | { kind: "line"; x0: number; y0: number; x1: number; y1: number }
+    | { kind: "rect"; x: number; y: number; width: number; height: number; filled?: boolean }
+    | { kind: "circle"; cx: number; cy: number; radius: number; filled?: boolean }
+    | { kind: "flood_fill"; x: number; y: number }
+    | { kind: "text"; x: number; y: number; text: string; scale?: number };
 
-    if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
-        throw new Error("Width and height must be positive integers");
+// Keeps a single drawing call from flooding the event log, whatever the batch cap
+export const MAX_SHAPE_PIXELS = 16_384;
+const MAX_TEXT_LENGTH = 256;
+const MAX_TEXT_SCALE = 16;
+
+function rasterizeShape(shape: ShapeSpec, state: CanvasState): Point[] {
+    const bounds = { width: state.meta.width, height: state.meta.height };
+    const coords = Object.entries(shape).filter(([key, value]) => key !== "kind" && typeof value === "number");
+    if (coords.some(([, value]) => !Number.isInteger(value) || Math.abs(value as number) > 4 * MAX_CANVAS_SIDE)) {
+        throw new Error("Shape coordinates and sizes must be integers within the canvas range");
+    }
+    switch (shape.kind) {
+        case "line":
+            return rasterizeLine(bounds, shape.x0, shape.y0, shape.x1, shape.y1);
+        case "rect":
+            if (shape.width <= 0 || shape.height <= 0) throw new Error("Rectangle width and height must be positive");
+            return rasterizeRect(bounds, shape.x, shape.y, shape.width, shape.height, shape.filled ?? false);
+        case "circle":
+            if (shape.radius < 0) throw new Error("Circle radius must not be negative");
+            return rasterizeCircle(bounds, shape.cx, shape.cy, shape.radius, shape.filled ?? false);
+        case "flood_fill": {
+            const pixels = decodePixelsFromBase64(state.pixelsBase64, bounds.width * bounds.height);
+            return floodFillRegion(pixels, bounds, shape.x, shape.y, MAX_SHAPE_PIXELS);
+        }
+        case "text": {
+            const scale = shape.scale ?? 1;
+            if (shape.text.length > MAX_TEXT_LENGTH) throw new Error(`Text is limited to ${MAX_TEXT_LENGTH} characters`);
+            if (scale < 1 || scale > MAX_TEXT_SCALE) throw new Error(`Text scale must be between 1 and ${MAX_TEXT_SCALE}`);
+            return rasterizeText(bounds, shape.x, shape.y, shape.text, scale);
+        }
     }
+}
 
-    const meta: CanvasMetadata = { width, height, palette };
-    const pixels = createEmptyPixels(width, height, 0);
-    const updated: CanvasState = {
-        meta,
-        pixelsBase64: encodePixelsToBase64(pixels),
-    };
-    await redis.set(CANVAS_KEY, updated);
-    return updated;
+// Rasterizes a shape on the server against the current canvas (parts outside it
+// are clipped) and paints it in one color through the same path as setPixels.
+export async function drawShape(params: {
+    shape: ShapeSpec;
+    color: string;
+    source?: PixelSource;
+    clientId?: string;
+    canvasId?: string;
+}): Promise<PixelWriteResult> {
+    const { shape, color, source, clientId, canvasId } = params;
+    const current = await getCanvas(canvasId);
+    const points = rasterizeShape(shape, current);
+    if (points.length === 0) {
+        throw new Error("Shape lies entirely outside the canvas");
+    }
+    if (points.length > MAX_SHAPE_PIXELS) {
+        throw new Error(`Shape covers ${points.length} pixels (max ${MAX_SHAPE_PIXELS})`);
+    }
+    const { kind, ...shapeParams } = shape;
+    let expectIndex: number | undefined;
+    if (shape.kind === "flood_fill") {
+        const pixels = decodePixelsFromBase64(current.pixelsBase64, current.meta.width * current.meta.height);
+        expectIndex = pixels[indexFor(shape.x, shape.y, current.meta.width)];
+    }
+    return writePixels({
+        updates: points.map(({ x, y }) => ({ x, y, color, expectIndex })),
+        source,
+        clientId,
+        canvasId,
+        trailer: (applied, timestampMs) => ({
+            type: "shape_drawn",
+            shape: kind,
+            paramsJson: JSON.stringify(shapeParams),
+            color: applied[0].color,
+            colorIndex: applied[0].colorIndex,
+            pixelCount: applied.length,
+            timestampMs,
+            source: source ?? "system",
+            clientId,
+        }),
+    });
 }
 
+export type PixelHistoryEntry = {
+    id: number;
+    color: string;
+    colorIndex: number;
+    timestampMs: number;
+    source: PixelSource;
+    clientId?: string;
+};
+
+export type PixelAuthor = {
+    author: string; // clientId, or the source for events logged without one
+    writes: number;
+    lastTimestampMs: number;
+};
 
+export type PixelHistory = {
+    x: number;
+    y: number;
+    current: { color: string; colorIndex: number };
+    history: PixelHistoryEntry[]; // newest first
+    authors: PixelAuthor[]; // most recent author first
+    truncated: boolean; // the scan limit was reached before the start of the log
+};
+
+const HISTORY_SCAN_CHUNK = 1000;
+// How far back a pixel's history is looked up
+const MAX_HISTORY_SCAN_EVENTS = 50_000;
+
+// Walks the event log backwards and collects the writes to one pixel, looking at
+// no more than the newest MAX_HISTORY_SCAN_EVENTS events
+export async function getPixelHistory(params: { x: number; y: number; limit?: number; canvasId?: string }): Promise<PixelHistory> {
+    const { x, y } = params;
+    const canvasId = resolveCanvasId(params.canvasId);
+    const limit = params.limit ?? 50;
+    const state = await getCanvas(canvasId);
+    const { width, height, palette } = state.meta;
+    if (!Number.isInteger(x) || !Number.isInteger(y) || x < 0 || y < 0 || x >= width || y >= height) {
+        throw new Error(`Pixel coordinates out of bounds: (${x}, ${y})`);
+    }
+    const pixels = decodePixelsFromBase64(state.pixelsBase64, width * height);
+    const colorIndex = pixels[indexFor(x, y, width)];
+
+    const store = getCanvasStore();
+    const history: PixelHistoryEntry[] = [];
+    const firstId = await store.firstEventId(canvasId);
+    const length = await store.countEvents(canvasId);
+    const scanFrom = Math.max(firstId, length - MAX_HISTORY_SCAN_EVENTS);
+    let stop = length - 1;
+    while (stop >= scanFrom && history.length < limit) {
+        const start = Math.max(scanFrom, stop - HISTORY_SCAN_CHUNK + 1);
+        const events = await readLogRange(canvasId, start, stop);
+        for (let i = events.length - 1; i >= 0 && history.length < limit; i--) {
+            const event = events[i];
+            if (event.type !== "pixel_set" || event.x !== x || event.y !== y) continue;
+            history.push({
+                id: event.id,
+                color: event.color,
+                colorIndex: event.colorIndex,
+                timestampMs: event.timestampMs,
+                source: event.source,
+                clientId: event.clientId,
+            });
+        }
+        stop = start - 1;
+    }
+
+    const authors = new Map<string, PixelAuthor>();
+    for (const entry of history) {
+        const author = entry.clientId ?? entry.source;
+        const existing = authors.get(author);
+        if (existing) {
+            existing.writes += 1;
+        } else {
+            authors.set(author, { author, writes: 1, lastTimestampMs: entry.timestampMs });
+        }
+    }
+
+    return {
+        x,
+        y,
+        current: { color: palette[colorIndex], colorIndex },
+        history,
+        authors: [...authors.values()],
+        truncated: history.length < limit && stop >= firstId,
+    };
+}
+
+export type RegionFormat = "hex" | "index" | "rle";
+
+// Rows are hex colors ("hex"), palette indices ("index") or runs of
+// [colorIndex, length] pairs ("rle"); the latter two come with the palette.
+export type CanvasRegion = {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    format: RegionFormat;
+    palette?: string[];
+    rows: string[][] | number[][] | [number, number][][];
+};
+
+export const MAX_REGION_CELLS = 64 * 64;
+
+// Reads a rectangle of the canvas. The rectangle is clipped to the canvas, so the
+// returned x/y/width/height may be smaller than requested.
+export async function getRegion(params: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    format?: RegionFormat;
+    canvasId?: string;
+}): Promise<CanvasRegion> {
+    const format = params.format ?? "hex";
+    if (![params.x, params.y, params.width, params.height].every(Number.isInteger) || params.width <= 0 || params.height <= 0) {
+        throw new Error("Region coordinates must be integers with a positive width and height");
+    }
+    if (params.width * params.height > MAX_REGION_CELLS) {
+        throw new Error(`Region too large: ${params.width * params.height} cells (max ${MAX_REGION_CELLS})`);
+    }
+    const state = await getCanvas(params.canvasId);
+    const { width: canvasWidth, height: canvasHeight, palette } = state.meta;
+    const x0 = Math.max(0, params.x);
+    const y0 = Math.max(0, params.y);
+    const x1 = Math.min(canvasWidth, params.x + params.width);
+    const y1 = Math.min(canvasHeight, params.y + params.height);
+    if (x1 <= x0 || y1 <= y0) {
+        throw new Error(`Region lies outside the ${canvasWidth}x${canvasHeight} canvas`);
+    }
+    const pixels = decodePixelsFromBase64(state.pixelsBase64, canvasWidth * canvasHeight);
+
+    const indexRows: number[][] = [];
+    for (let y = y0; y < y1; y++) {
+        indexRows.push(Array.from(pixels.subarray(indexFor(x0, y, canvasWidth), indexFor(x1, y, canvasWidth))));
+    }
+    const region = { x: x0, y: y0, width: x1 - x0, height: y1 - y0, format };
+    if (format === "hex") {
+        return { ...region, rows: indexRows.map((row) => row.map((i) => palette[i])) };
+    }
+    if (format === "index") {
+        return { ...region, palette, rows: indexRows };
+    }
+    const rleRows = indexRows.map((row) => {
+        const runs: [number, number][] = [];
+        for (const index of row) {
+            const last = runs[runs.length - 1];
+            if (last && last[0] === index) last[1]++;
+            else runs.push([index, 1]);
+        }
+        return runs;
+    });
+    return { ...region, palette, rows: rleRows };
+}
+
+const MAX_CANVAS_SIDE = 1024;
+
+export async function resetCanvas(params?: {
+    width?: number;
+    height?: number;
+    palette?: string[];
+    source?: PixelSource;
+    clientId?: string;
+    canvasId?: string;
+}): Promise<CanvasState> {
+    const { state } = await commitCanvasUpdate(resolveCanvasId(params?.canvasId), (existing) => {
+        const width = params?.width ?? existing.meta.width;
+        const height = params?.height ?? existing.meta.height;
+        const palette = params?.palette ? validatePalette(params.palette) : existing.meta.palette;
+
+        if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+            throw new Error("Width and height must be positive integers");
+        }
+        if (width > MAX_CANVAS_SIDE || height > MAX_CANVAS_SIDE) {
+            throw new Error(`Width and height must be at most ${MAX_CANVAS_SIDE}`);
+        }
+
+        const meta: CanvasMetadata = { ...existing.meta, width, height, palette };
+        const pixels = createEmptyPixels(width, height, 0);
+        const updated: CanvasState = {
+            meta,
+            pixelsBase64: encodePixelsToBase64(pixels),
+        };
+        // Marks the start of a new epoch for replay
+        const event: CanvasResetEvent = {
+            type: "canvas_reset",
+            width,
+            height,
+            palette,
+            timestampMs: Date.now(),
+            source: params?.source ?? "system",
+            clientId: params?.clientId,
+        };
+        return { state: updated, events: [event] };
+    });
+    return state;
+}
+
+function anchorOffset(from: number, to: number, end: "start" | "end" | "center"): number {
+    if (end === "start") return 0;
+    if (end === "end") return to - from;
+    return Math.floor((to - from) / 2);
+}
+
+// Copies pixels into a canvas of the new size, keeping the anchored edge or
+// corner in place; newly exposed cells get palette index 0.
+export function resizePixels(
+    pixels: Uint8Array,
+    from: { width: number; height: number },
+    to: { width: number; height: number },
+    anchor: ResizeAnchor
+): Uint8Array {
+    const horizontal = anchor === "center" ? "center" : anchor.endsWith("left") ? "start" : "end";
+    const vertical = anchor === "center" ? "center" : anchor.startsWith("top") ? "start" : "end";
+    const dx = anchorOffset(from.width, to.width, horizontal);
+    const dy = anchorOffset(from.height, to.height, vertical);
+    const resized = createEmptyPixels(to.width, to.height, 0);
+    for (let y = 0; y < from.height; y++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= to.height) continue;
+        for (let x = 0; x < from.width; x++) {
+            const nx = x + dx;
+            if (nx < 0 || nx >= to.width) continue;
+            resized[indexFor(nx, ny, to.width)] = pixels[indexFor(x, y, from.width)];
+        }
+    }
+    return resized;
+}
+
+export async function resizeCanvas(params: {
+    width: number;
+    height: number;
+    anchor?: ResizeAnchor;
+    source?: PixelSource;
+    clientId?: string;
+    canvasId?: string;
+}): Promise<CanvasState> {
+    const { width, height } = params;
+    const anchor = params.anchor ?? "top-left";
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+        throw new Error("Width and height must be positive integers");
+    }
+    if (width > MAX_CANVAS_SIDE || height > MAX_CANVAS_SIDE) {
+        throw new Error(`Width and height must be at most ${MAX_CANVAS_SIDE}`);
+    }
+    const { state } = await commitCanvasUpdate(resolveCanvasId(params.canvasId), (current) => {
+        const from = { width: current.meta.width, height: current.meta.height };
+        const pixels = decodePixelsFromBase64(current.pixelsBase64, from.width * from.height);
+        const resized = resizePixels(pixels, from, { width, height }, anchor);
+        const updated: CanvasState = {
+            meta: { ...current.meta, width, height },
+            pixelsBase64: encodePixelsToBase64(resized),
+        };
+        const event: CanvasResizedEvent = {
+            type: "canvas_resized",
+            fromWidth: from.width,
+            fromHeight: from.height,
+            width,
+            height,
+            anchor,
+            timestampMs: Date.now(),
+            source: params.source ?? "system",
+            clientId: params.clientId,
+        };
+        return { state: updated, events: [event] };
+    });
+    return state;
+}
+
+function validatePalette(palette: string[]): string[] {
+    if (!Array.isArray(palette) || palette.length === 0) {
+        throw new Error("Palette must be a non-empty array of colors");
+    }
+    if (palette.length > 256) {
+        throw new Error("Palette is full (max 256 colors due to Uint8Array storage)");
+    }
+    const normalized = palette.map((color) => {
+        if (typeof color !== "string" || color.trim().length === 0) {
+            throw new Error("Palette colors must be non-empty strings");
+        }
+        return normalizeColorString(color);
+    });
+    const duplicate = normalized.find((color, i) => normalized.indexOf(color) !== i);
+    if (duplicate) {
+        throw new Error(`Palette contains ${duplicate} more than once`);
+    }
+    return normalized;
+}
+
+// Maps every old palette index to the index of the same color in the new palette,
+// or to fallbackIndex when the color was removed.
+export function paletteIndexMap(oldPalette: string[], newPalette: string[], fallbackIndex: number): number[] {
+    const normalizedNew = newPalette.map(normalizeColorString);
+    const map: number[] = [];
+    for (let i = 0; i < 256; i++) {
+        const color = oldPalette[i];
+        const j = color === undefined ? -1 : normalizedNew.indexOf(normalizeColorString(color));
+        map.push(j === -1 ? fallbackIndex : j);
+    }
+    return map;
+}
+
+export type PaletteChangeMode = "remap" | "reject";
+
+export async function setPalette(params: {
+    palette?: string[]; // keeps the current palette when omitted
+    policy?: PalettePolicy; // keeps the current policy when omitted
+    mode?: PaletteChangeMode; // what to do with pixels whose color is removed (default "reject")
+    fallbackIndex?: number; // new palette index for removed colors in "remap" mode (default 0)
+    source?: PixelSource;
+    clientId?: string;
+    canvasId?: string;
+}): Promise<CanvasState> {
+    const requestedPalette = params.palette ? validatePalette(params.palette) : undefined;
+    const mode = params.mode ?? "reject";
+    const fallbackIndex = params.fallbackIndex ?? 0;
+    const { state } = await commitCanvasUpdate(resolveCanvasId(params.canvasId), (current) => {
+        const palette = requestedPalette ?? current.meta.palette;
+        if (!Number.isInteger(fallbackIndex) || fallbackIndex < 0 || fallbackIndex >= palette.length) {
+            throw new Error(`fallbackIndex must be an index into the new palette (0..${palette.length - 1})`);
+        }
+        const { width, height } = current.meta;
+        const oldPalette = current.meta.palette;
+        const pixels = decodePixelsFromBase64(current.pixelsBase64, width * height);
+        const indexMap = paletteIndexMap(oldPalette, palette, fallbackIndex);
+        const kept = new Set(palette.map(normalizeColorString));
+
+        const removedInUse = new Set<number>();
+        let remappedPixels = 0;
+        for (let i = 0; i < pixels.length; i++) {
+            const oldIndex = pixels[i];
+            const oldColor = oldPalette[oldIndex];
+            if (oldColor === undefined || !kept.has(normalizeColorString(oldColor))) {
+                removedInUse.add(oldIndex);
+                remappedPixels++;
+            }
+            pixels[i] = indexMap[oldIndex];
+        }
+        if (mode === "reject" && removedInUse.size > 0) {
+            const removed = [...removedInUse].map((i) => oldPalette[i] ?? `#${i}`).join(", ");
+            throw new Error(`Palette change removes colors still in use: ${removed} (use mode "remap" to replace them)`);
+        }
+
+        const palettePolicy = params.policy ?? current.meta.palettePolicy;
+        const updated: CanvasState = {
+            meta: { ...current.meta, palette, ...(palettePolicy ? { palettePolicy } : {}) },
+            pixelsBase64: encodePixelsToBase64(pixels),
+        };
+        const event: PaletteSetEvent = {
+            type: "palette_set",
+            palette,
+            policy: palettePolicy ?? "open",
+            indexMap,
+            remappedPixels,
+            timestampMs: Date.now(),
+            source: params.source ?? "system",
+            clientId: params.clientId,
+        };
+        return { state: updated, events: [event] };
+    });
+    return state;
+}
+
+// --- Canvases ------------------------------------------------------------
+
+// Registry of created canvases; the default canvas exists implicitly
+const CANVASES_HASH_KEY = "canvas:canvases:v1";
+const MAX_CANVASES = 100;
+
+export type CanvasInfo = {
+    id: string;
+    title?: string;
+    createdAtMs: number;
+    createdBy?: string;
+};
+
+export type CanvasSummary = CanvasInfo & {
+    width: number;
+    height: number;
+    paletteSize: number;
+    palettePolicy: PalettePolicy;
+    eventCount: number;
+};
+
+// The default canvas always exists (it is created on first access)
+export async function canvasExists(canvasId?: string): Promise<boolean> {
+    const id = resolveCanvasId(canvasId);
+    return id === DEFAULT_CANVAS_ID || (await getCanvasStore().readState(id)) !== null;
+}
+
+export async function listCanvases(): Promise<CanvasSummary[]> {
+    const store = getCanvasStore();
+    const registered = await store.readHash<CanvasInfo>(CANVASES_HASH_KEY);
+    const defaultState = await store.readState(DEFAULT_CANVAS_ID);
+    // The default canvas was created by its first logged event (or not yet at all);
+    // once the log is compacted the oldest retained event has to do
+    const [firstEvent] = await getCanvasEventsAfter(-1, { limit: 1 });
+    const infos: CanvasInfo[] = [
+        { id: DEFAULT_CANVAS_ID, createdAtMs: firstEvent?.timestampMs ?? Date.now() },
+        ...Object.values(registered).sort((a, b) => a.createdAtMs - b.createdAtMs),
+    ];
+    const summaries: CanvasSummary[] = [];
+    for (const info of infos) {
+        const meta = info.id === DEFAULT_CANVAS_ID
+            ? (defaultState?.state ?? defaultCanvasState()).meta
+            : (await store.readState(info.id))?.state.meta;
+        if (!meta) continue;
+        summaries.push({
+            ...info,
+            width: meta.width,
+            height: meta.height,
+            paletteSize: meta.palette.length,
+            palettePolicy: meta.palettePolicy ?? "open",
+            eventCount: await store.countEvents(info.id),
+        });
+    }
+    return summaries;
+}
+
+// Creates an empty canvas with its own size, palette and event log
+export async function createCanvas(params: {
+    canvasId: string;
+    title?: string;
+    width?: number;
+    height?: number;
+    palette?: string[];
+    palettePolicy?: PalettePolicy;
+    source?: PixelSource;
+    clientId?: string;
+}): Promise<CanvasState> {
+    const canvasId = resolveCanvasId(params.canvasId);
+    const width = params.width ?? DEFAULT_WIDTH;
+    const height = params.height ?? DEFAULT_HEIGHT;
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+        throw new Error("Width and height must be positive integers");
+    }
+    if (width > MAX_CANVAS_SIDE || height > MAX_CANVAS_SIDE) {
+        throw new Error(`Width and height must be at most ${MAX_CANVAS_SIDE}`);
+    }
+    const palette = params.palette ? validatePalette(params.palette) : DEFAULT_PALETTE;
+    if (params.title !== undefined && params.title.length > 200) {
+        throw new Error("Canvas titles are limited to 200 characters");
+    }
+
+    const store = getCanvasStore();
+    const registered = await store.readHash<CanvasInfo>(CANVASES_HASH_KEY);
+    if (canvasId === DEFAULT_CANVAS_ID || registered[canvasId] || (await store.readState(canvasId))) {
+        throw new Error(`Canvas "${canvasId}" already exists`);
+    }
+    if (Object.keys(registered).length >= MAX_CANVASES) {
+        throw new Error(`At most ${MAX_CANVASES} canvases can be created`);
+    }
+
+    const meta: CanvasMetadata = {
+        width,
+        height,
+        palette,
+        ...(params.palettePolicy && params.palettePolicy !== "open" ? { palettePolicy: params.palettePolicy } : {}),
+    };
+    const initial: CanvasState = { meta, pixelsBase64: encodePixelsToBase64(createEmptyPixels(width, height, 0)) };
+    const created = await initializeCanvas(canvasId, initial, params.source ?? "system", params.clientId);
+    if (!created) {
+        throw new Error(`Canvas "${canvasId}" already exists`);
+    }
+    const info: CanvasInfo = {
+        id: canvasId,
+        ...(params.title ? { title: params.title } : {}),
+        createdAtMs: Date.now(),
+        ...(params.clientId ? { createdBy: params.clientId } : {}),
+    };
+    await store.writeHashField(CANVASES_HASH_KEY, canvasId, info);
+    return created.state;
+}
+
+// --- Backup and restore --------------------------------------------------
+
+const RESTORE_APPEND_CHUNK = 1000;
+
+export type RestoreResult = {
+    state: CanvasState;
+    importedEvents: number; // history events appended to the log
+    skippedEvents: number; // history events left out because the log wasn't empty
+};
+
+// Replaces a canvas with a backed-up state, logged as one canvas_restored event.
+// Canvases that don't exist yet are created. `history` (events from an archive)
+// is appended first, but only while the canvas's log is empty, so the imported
+// events keep their order but are numbered from 0; otherwise it is skipped and
+// counted in `skippedEvents`. Everything is validated before the first write.
+export async function restoreCanvas(params: {
+    state: CanvasState;
+    history?: CanvasEvent[];
+    canvasId?: string;
+    source?: PixelSource;
+    clientId?: string;
+}): Promise<RestoreResult> {
+    const canvasId = resolveCanvasId(params.canvasId);
+    const { width, height, palettePolicy } = params.state.meta;
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+        throw new Error("Width and height must be positive integers");
+    }
+    if (width > MAX_CANVAS_SIDE || height > MAX_CANVAS_SIDE) {
+        throw new Error(`Width and height must be at most ${MAX_CANVAS_SIDE}`);
+    }
+    // Validated, but kept as written so the restored palette is identical
+    validatePalette(params.state.meta.palette);
+    const palette = [...params.state.meta.palette];
+    const pixels = decodePixelsFromBase64(params.state.pixelsBase64, width * height);
+    const stray = pixels.findIndex((index) => index >= palette.length);
+    if (stray !== -1) {
+        throw new Error(`Pixel ${stray} uses color index ${pixels[stray]}, beyond the ${palette.length}-color palette`);
+    }
+    const state: CanvasState = {
+        meta: { width, height, palette, ...(palettePolicy && palettePolicy !== "open" ? { palettePolicy } : {}) },
+        pixelsBase64: encodePixelsToBase64(pixels),
+    };
+    const invalid = params.history?.find((event) => !isCanvasEventType(event.type));
+    if (invalid) {
+        throw new Error(`Unknown event type "${invalid.type}" in the history`);
+    }
+
+    const store = getCanvasStore();
+    const existing = await store.readState(canvasId);
+    const registered = existing || canvasId === DEFAULT_CANVAS_ID ? undefined : await store.readHash<CanvasInfo>(CANVASES_HASH_KEY);
+    if (registered && !registered[canvasId] && Object.keys(registered).length >= MAX_CANVASES) {
+        throw new Error(`At most ${MAX_CANVASES} canvases can be created`);
+    }
+    let history = params.history ?? [];
+    const skippedEvents = history.length > 0 && (await store.countEvents(canvasId)) > 0 ? history.length : 0;
+    if (skippedEvents > 0) history = [];
+
+    for (let i = 0; i < history.length; i += RESTORE_APPEND_CHUNK) {
+        await store.appendEvents(canvasId, history.slice(i, i + RESTORE_APPEND_CHUNK));
+    }
+    if (registered) {
+        const info: CanvasInfo = { id: canvasId, createdAtMs: Date.now(), ...(params.clientId ? { createdBy: params.clientId } : {}) };
+        await store.writeHashField(CANVASES_HASH_KEY, canvasId, registered[canvasId] ?? info);
+    }
+
+    const event: CanvasRestoredEvent = {
+        type: "canvas_restored",
+        ...state.meta,
+        pixelsBase64: state.pixelsBase64,
+        timestampMs: Date.now(),
+        source: params.source ?? "script",
+        clientId: params.clientId,
+    };
+    if (!existing) {
+        const committed = await store.commitState(canvasId, state, { expectedVersion: 0, events: [event] });
+        if (committed === null) {
+            throw new Error(`Canvas "${canvasId}" was created concurrently; please retry`);
+        }
+        notifyCanvasEvents(canvasId);
+        await maybeWriteSnapshot(canvasId, state, committed.eventCount - 1, event.timestampMs);
+        return { state, importedEvents: history.length, skippedEvents };
+    }
+    const { state: restored } = await commitCanvasUpdate(canvasId, () => ({ state, events: [event] }));
+    return { state: restored, importedEvents: history.length, skippedEvents };
+}
+
+// --- Undo ----------------------------------------------------------------
+
+export type RevertFilter = {
+    source?: PixelSource;
+    clientId?: string;
+    fromMs?: number;
+    toMs?: number;
+};
+
+export type RevertResult = {
+    state: CanvasState;
+    revertedBatchIds: string[];
+    pixelCount: number; // pixels restored
+    skippedPixels: number;
+};
+
+// How far back undo looks for the caller's last batch
+const UNDO_SCAN_LIMIT = 50_000;
+// Upper bound on the pixel writes a single revert may examine
+export const MAX_REVERT_PIXELS = 65_536;
+const REVERT_SCAN_CHUNK = 1000;
+
+type RevertPlan = {
+    updates: GuardedPixelUpdate[];
+    revertedBatchIds: string[];
+    skippedPixels: number;
+};
+
+// Replays the log from `firstId` and works out, per pixel, what a revert of the
+// target writes should restore: the color before the last uninterrupted run of
+// target writes. Pixels whose latest write is not a target were overwritten by
+// someone else and are skipped, as is everything before a reset, resize, restore or
+// palette change (restoring colors the new palette dropped would add them back).
+async function planRevert(
+    canvasId: string,
+    firstId: number,
+    isTarget: (event: PixelSetEvent) => boolean,
+    state: CanvasState
+): Promise<RevertPlan> {
+    const length = await getCanvasStore().countEvents(canvasId);
+    const runs = new Map<string, { x: number; y: number; restoreTo?: string; targetIsLast: boolean }>();
+    const batchIds = new Set<string>();
+    let skippedPixels = 0;
+    let examined = 0;
+
+    for (let start = firstId; start < length; start += REVERT_SCAN_CHUNK) {
+        const stop = Math.min(length - 1, start + REVERT_SCAN_CHUNK - 1);
+        for (const event of await readLogRange(canvasId, start, stop)) {
+            if (event.type === "canvas_reset" || event.type === "canvas_resized" || event.type === "canvas_restored" || event.type === "palette_set") {
+                for (const run of runs.values()) if (run.targetIsLast) skippedPixels++;
+                runs.clear();
+                continue;
+            }
+            if (event.type !== "pixel_set") continue;
+            const key = `${event.x},${event.y}`;
+            const run = runs.get(key);
+            if (!isTarget(event)) {
+                if (run?.targetIsLast) {
+                    run.targetIsLast = false;
+                    skippedPixels++;
+                }
+                continue;
+            }
+            if (++examined > MAX_REVERT_PIXELS) {
+                throw new Error(`More than ${MAX_REVERT_PIXELS} pixel writes to revert; narrow the range`);
+            }
+            if (event.batchId) batchIds.add(event.batchId);
+            if (run?.targetIsLast) continue;
+            if (run) skippedPixels--; // the pixel is ours again
+            runs.set(key, { x: event.x, y: event.y, restoreTo: event.previousColor, targetIsLast: true });
+        }
+    }
+
+    const { width, height, palette } = state.meta;
+    const pixels = decodePixelsFromBase64(state.pixelsBase64, width * height);
+    const updates: GuardedPixelUpdate[] = [];
+    for (const run of runs.values()) {
+        if (!run.targetIsLast) continue;
+        if (run.restoreTo === undefined || run.x >= width || run.y >= height) {
+            skippedPixels++;
+            continue;
+        }
+        const expectIndex = pixels[indexFor(run.x, run.y, width)];
+        if (palette[expectIndex] === run.restoreTo) continue; // already back to that color
+        updates.push({ x: run.x, y: run.y, color: run.restoreTo, expectIndex });
+    }
+    return { updates, revertedBatchIds: [...batchIds], skippedPixels };
+}
+
+async function applyRevert(params: {
+    canvasId: string;
+    plan: RevertPlan;
+    filter?: RevertFilter;
+    source?: PixelSource;
+    clientId?: string;
+    ignoreRegions?: boolean;
+}): Promise<RevertResult> {
+    const { canvasId, plan, filter, source, clientId, ignoreRegions } = params;
+    const batchId = newBatchId();
+    const reverted = (pixelCount: number, timestampMs: number): PixelsRevertedEvent => ({
+        type: "pixels_reverted",
+        batchId,
+        revertedBatchIds: plan.revertedBatchIds,
+        filterJson: filter ? JSON.stringify(filter) : undefined,
+        pixelCount,
+        // Pixels that changed between planning and committing are skipped too
+        skippedPixels: plan.skippedPixels + plan.updates.length - pixelCount,
+        timestampMs,
+        source: source ?? "system",
+        clientId,
+    });
+
+    let state: CanvasState;
+    let pixelCount = 0;
+    if (plan.updates.length > 0) {
+        const result = await writePixels({
+            updates: plan.updates,
+            source,
+            clientId,
+            canvasId,
+            batchId,
+            unmetered: true,
+            ignoreRegions,
+            // Pixels the palette or a region rejects now are skipped, not fatal
+            partial: true,
+            trailer: (applied, timestampMs) => reverted(applied.length, timestampMs),
+        });
+        state = result.state;
+        pixelCount = result.applied.length;
+    } else {
+        state = await getCanvas(canvasId);
+    }
+    // Nothing was written (all pixels overwritten): still record the revert so
+    // undo doesn't keep offering the same batch
+    if (pixelCount === 0) {
+        await appendEventsToLog([reverted(0, Date.now())], canvasId);
+    }
+    return { state, revertedBatchIds: plan.revertedBatchIds, pixelCount, skippedPixels: plan.skippedPixels + plan.updates.length - pixelCount };
+}
+
+// Reverts the most recent batch written by `clientId` that hasn't been reverted
+// yet. Batches produced by reverts don't count, so repeated undos walk further back.
+export async function undoLastBatch(params: { clientId: string; source?: PixelSource; canvasId?: string }): Promise<RevertResult> {
+    const { clientId, source } = params;
+    const canvasId = resolveCanvasId(params.canvasId);
+    const state = await getCanvas(canvasId);
+    const store = getCanvasStore();
+    const length = await store.countEvents(canvasId);
+    const firstId = await store.firstEventId(canvasId);
+    const skipBatches = new Set<string>();
+    let target: { batchId: string; firstId: number } | undefined;
+
+    // Walk backwards to the newest pixel write of the caller's that isn't skipped
+    const floor = Math.max(firstId, length - UNDO_SCAN_LIMIT);
+    for (let stop = length - 1; stop >= floor && !target; stop -= REVERT_SCAN_CHUNK) {
+        const start = Math.max(floor, stop - REVERT_SCAN_CHUNK + 1);
+        const events = await readLogRange(canvasId, start, stop);
+        for (let i = events.length - 1; i >= 0 && !target; i--) {
+            const event = events[i];
+            if (event.type === "pixels_reverted") {
+                skipBatches.add(event.batchId);
+                for (const id of event.revertedBatchIds) skipBatches.add(id);
+            } else if (event.type === "pixel_set" && event.clientId === clientId && event.batchId && !skipBatches.has(event.batchId)) {
+                target = { batchId: event.batchId, firstId: event.id };
+            }
+        }
+    }
+    if (!target) {
+        throw new Error("Nothing to undo");
+    }
+    // A batch is committed in one step, so its events are contiguous: extend back to its first one
+    for (let stop = target.firstId - 1; stop >= firstId && target.firstId === stop + 1; stop -= REVERT_SCAN_CHUNK) {
+        const start = Math.max(firstId, stop - REVERT_SCAN_CHUNK + 1);
+        const events = await readLogRange(canvasId, start, stop);
+        for (let i = events.length - 1; i >= 0; i--) {
+            const event = events[i];
+            if (event.type !== "pixel_set" || event.batchId !== target.batchId) break;
+            target.firstId = event.id;
+        }
+    }
+    const batchId = target.batchId;
+    // The caller's own later writes that were already undone don't count as
+    // overwrites; they are part of the run being rolled back
+    const isTarget = (event: PixelSetEvent) =>
+        event.batchId === batchId || (event.clientId === clientId && event.batchId !== undefined && skipBatches.has(event.batchId));
+    const plan = await planRevert(canvasId, target.firstId, isTarget, state);
+    return applyRevert({ canvasId, plan, source, clientId });
+}
+
+function matchesRevertFilter(event: PixelSetEvent, filter: RevertFilter): boolean {
+    if (filter.source !== undefined && event.source !== filter.source) return false;
+    if (filter.clientId !== undefined && event.clientId !== filter.clientId) return false;
+    if (filter.fromMs !== undefined && event.timestampMs < filter.fromMs) return false;
+    if (filter.toMs !== undefined && event.timestampMs > filter.toMs) return false;
+    return true;
+}
+
+// Admin: reverts every pixel write matching the filter (source, client and/or
+// time window), skipping pixels that others have painted over since.
+export async function revertRange(params: {
+    filter: RevertFilter;
+    source?: PixelSource;
+    clientId?: string;
+    canvasId?: string;
+}): Promise<RevertResult> {
+    const { filter, source, clientId } = params;
+    const canvasId = resolveCanvasId(params.canvasId);
+    if (filter.source === undefined && filter.clientId === undefined && filter.fromMs === undefined && filter.toMs === undefined) {
+        throw new Error("revert_range needs at least one of source, clientId, fromMs or toMs");
+    }
+    const state = await getCanvas(canvasId);
+    const store = getCanvasStore();
+    const length = await store.countEvents(canvasId);
+
+    // Find the first matching write; everything before it is irrelevant
+    let firstId = -1;
+    for (let start = await store.firstEventId(canvasId); start < length && firstId === -1; start += REVERT_SCAN_CHUNK) {
+        const events = await readLogRange(canvasId, start, Math.min(length - 1, start + REVERT_SCAN_CHUNK - 1));
+        firstId = events.find((e) => e.type === "pixel_set" && matchesRevertFilter(e, filter))?.id ?? -1;
+    }
+    if (firstId === -1) {
+        throw new Error("No pixel writes match the filter");
+    }
+    const plan = await planRevert(canvasId, firstId, (event) => matchesRevertFilter(event, filter), state);
+    // Admin reverts clean up regardless of who reserved the area since
+    return applyRevert({ canvasId, plan, filter, source, clientId, ignoreRegions: true });
+}
+
+// --- Time travel ---------------------------------------------------------
+
+// Snapshots let replay start close to the requested time instead of at the
+// beginning of the log. Each one is the committed state right after an event.
+export type CanvasSnapshot = {
+    eventId: number;
+    timestampMs: number;
+    state: CanvasState;
+};
+
+// Both hashes exist per canvas (see canvasScopedKey)
+const SNAPSHOTS_HASH_KEY = "canvas:snapshots:v1";
+// eventId → timestampMs, kept separate so finding a snapshot doesn't load them all
+const SNAPSHOT_INDEX_HASH_KEY = "canvas:snapshots:index:v1";
+
+function snapshotInterval(): number {
+    return Math.max(1, readIntEnv("CANVAS_SNAPSHOT_INTERVAL", 500));
+}
+
+// Cached per store and canvas so swapping stores (scripts, tests) doesn't reuse a stale id
+const lastSnapshotIds = new WeakMap<CanvasStore, Map<string, number>>();
+
+async function lastSnapshotEventId(store: CanvasStore, canvasId: string): Promise<number> {
+    let ids = lastSnapshotIds.get(store);
+    if (!ids) {
+        ids = new Map();
+        lastSnapshotIds.set(store, ids);
+    }
+    let id = ids.get(canvasId);
+    if (id === undefined) {
+        id = newestSnapshotId(await readSnapshotIndex(canvasId), () => true);
+        ids.set(canvasId, id);
+    }
+    return id;
+}
+
+// eventId → timestampMs of every snapshot of the canvas
+async function readSnapshotIndex(canvasId: string): Promise<Record<string, number>> {
+    return getCanvasStore().readHash<number>(canvasScopedKey(SNAPSHOT_INDEX_HASH_KEY, canvasId));
+}
+
+// Event id of the newest snapshot in the index that `accept` allows, or -1
+function newestSnapshotId(index: Record<string, number>, accept: (eventId: number, timestampMs: number) => boolean): number {
+    let bestId = -1;
+    for (const [id, timestampMs] of Object.entries(index)) {
+        const eventId = Number(id);
+        if (eventId > bestId && accept(eventId, Number(timestampMs))) bestId = eventId;
+    }
+    return bestId;
+}
+
+async function readSnapshot(canvasId: string, eventId: number): Promise<CanvasSnapshot | null> {
+    return getCanvasStore().readHashField<CanvasSnapshot>(canvasScopedKey(SNAPSHOTS_HASH_KEY, canvasId), String(eventId));
+}
+
+async function writeSnapshot(store: CanvasStore, canvasId: string, snapshot: CanvasSnapshot): Promise<void> {
+    await store.writeHashField(canvasScopedKey(SNAPSHOTS_HASH_KEY, canvasId), String(snapshot.eventId), snapshot);
+    await store.writeHashField(canvasScopedKey(SNAPSHOT_INDEX_HASH_KEY, canvasId), String(snapshot.eventId), snapshot.timestampMs);
+    const latest = Math.max(snapshot.eventId, await lastSnapshotEventId(store, canvasId));
+    lastSnapshotIds.get(store)?.set(canvasId, latest);
+}
+
+// Called after each commit with the id of its last event. Several instances may
+// each write a snapshot for the same stretch of log; that is harmless. Retention
+// is not enforced here: scripts/compact-events.ts applies it, run on a schedule.
+async function maybeWriteSnapshot(canvasId: string, state: CanvasState, eventId: number, timestampMs: number): Promise<void> {
+    const store = getCanvasStore();
+    if (eventId - (await lastSnapshotEventId(store, canvasId)) < snapshotInterval()) return;
+    await writeSnapshot(store, canvasId, { eventId, timestampMs, state });
+}
+
+// Canvas with decoded pixels, as used while folding events
+export type CanvasFrame = {
+    meta: CanvasMetadata;
+    pixels: Uint8Array;
+};
+
+export function frameFromState(state: CanvasState): CanvasFrame {
+    const { width, height } = state.meta;
+    return {
+        meta: { ...state.meta, palette: [...state.meta.palette] },
+        pixels: decodePixelsFromBase64(state.pixelsBase64, width * height),
+    };
+}
+
+export function stateFromFrame(frame: CanvasFrame): CanvasState {
+    return { meta: frame.meta, pixelsBase64: encodePixelsToBase64(frame.pixels) };
+}
+
+// Applies one logged event to a frame in place (replacing the frame for resets
+// and resizes). Events that don't change the canvas leave it untouched.
+export function applyCanvasEvent(frame: CanvasFrame, event: CanvasEvent): CanvasFrame {
+    switch (event.type) {
+        case "pixel_set": {
+            const { width, height } = frame.meta;
+            if (event.x < 0 || event.y < 0 || event.x >= width || event.y >= height) return frame;
+            frame.pixels[indexFor(event.x, event.y, width)] = event.colorIndex;
+            // Open palettes grow implicitly through pixel writes
+            if (frame.meta.palette[event.colorIndex] !== event.color) {
+                frame.meta.palette[event.colorIndex] = event.color;
+            }
+            return frame;
+        }
+        case "canvas_reset":
+            return {
+                meta: {
+                    ...frame.meta,
+                    width: event.width,
+                    height: event.height,
+                    palette: [...event.palette],
+                    ...(event.palettePolicy ? { palettePolicy: event.palettePolicy } : {}),
+                },
+                pixels: createEmptyPixels(event.width, event.height, 0),
+            };
+        case "canvas_resized":
+            return {
+                meta: { ...frame.meta, width: event.width, height: event.height },
+                pixels: resizePixels(
+                    frame.pixels,
+                    { width: frame.meta.width, height: frame.meta.height },
+                    { width: event.width, height: event.height },
+                    event.anchor
+                ),
+            };
+        case "canvas_restored":
+            return frameFromState({
+                meta: {
+                    width: event.width,
+                    height: event.height,
+                    palette: event.palette,
+                    ...(event.palettePolicy ? { palettePolicy: event.palettePolicy } : {}),
+                },
+                pixelsBase64: event.pixelsBase64,
+            });
+        case "palette_set": {
+            for (let i = 0; i < frame.pixels.length; i++) {
+                frame.pixels[i] = event.indexMap[frame.pixels[i]] ?? 0;
+            }
+            frame.meta.palette = [...event.palette];
+            // Canvases without a stored policy are "open"; don't add the field needlessly
+            if (event.policy !== (frame.meta.palettePolicy ?? "open")) frame.meta.palettePolicy = event.policy;
+            return frame;
+        }
+        default:
+            return frame;
+    }
+}
+
+// Accepts epoch milliseconds (number or numeric string) or an ISO 8601 date
+export function parseTimestamp(value: number | string): number | undefined {
+    if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+    const trimmed = value.trim();
+    if (trimmed === "") return undefined;
+    const ms = /^-?\d+$/.test(trimmed) ? Number(trimmed) : Date.parse(trimmed);
+    return Number.isFinite(ms) ? ms : undefined;
+}
+
+const REPLAY_CHUNK = 1000;
+
+function cloneFrame(frame: CanvasFrame): CanvasFrame {
+    return { meta: { ...frame.meta, palette: [...frame.meta.palette] }, pixels: frame.pixels.slice() };
+}
+
+// Starting frame for a log with no snapshot to replay from. Logs normally open
+// with a canvas_reset or canvas_restored that replaces it anyway; legacy logs and
+// histories imported from a compacted archive don't, so their events are folded
+// onto a blank canvas with the stored size and palette rather than the defaults.
+async function replayBaseFrame(canvasId: string): Promise<CanvasFrame> {
+    const stored = await getCanvasStore().readState(canvasId);
+    const base = stored?.state ?? defaultCanvasState();
+    const { width, height } = base.meta;
+    return { meta: { ...base.meta, palette: [...base.meta.palette] }, pixels: createEmptyPixels(width, height, 0) };
+}
+
+// Replays the log once and captures the canvas at each of the given times
+// (ascending), starting from the nearest snapshot before the first one. Times
+// before a compaction point can't be replayed exactly; they get the newest
+// snapshot taken by then (or the oldest one there is).
+export async function getCanvasFrames(timestamps: number[], canvasId?: string): Promise<CanvasFrame[]> {
+    if (timestamps.length === 0) return [];
+    if (timestamps.some((t, i) => !Number.isFinite(t) || (i > 0 && t < timestamps[i - 1]))) {
+        throw new Error("Timestamps must be finite and in ascending order");
+    }
+    const id = resolveCanvasId(canvasId);
+    const store = getCanvasStore();
+    const index = await readSnapshotIndex(id);
+    const firstId = await store.firstEventId(id);
+    const length = await store.countEvents(id);
+    const frames: CanvasFrame[] = [];
+
+    if (firstId > 0) {
+        const compactedAtMs = index[String(firstId - 1)] ?? -Infinity;
+        let cached: { eventId: number; frame: CanvasFrame } | undefined;
+        while (frames.length < timestamps.length && timestamps[frames.length] < compactedAtMs) {
+            const t = timestamps[frames.length];
+            let eventId = newestSnapshotId(index, (_, timestampMs) => timestampMs <= t);
+            if (eventId === -1) eventId = Math.min(...Object.keys(index).map(Number));
+            if (cached?.eventId !== eventId) {
+                const snapshot = await readSnapshot(id, eventId);
+                if (!snapshot) throw new Error(`Snapshot ${eventId} of canvas "${id}" is missing`);
+                cached = { eventId, frame: frameFromState(snapshot.state) };
+            }
+            frames.push(cloneFrame(cached.frame));
+        }
+        if (frames.length === timestamps.length) return frames;
+    }
+
+    // Replay from the newest snapshot before the next time that the retained log continues
+    const from = timestamps[frames.length];
+    const baseId = newestSnapshotId(index, (eventId, timestampMs) => timestampMs <= from && eventId >= firstId - 1);
+    const snapshot = baseId === -1 ? null : await readSnapshot(id, baseId);
+    let frame = snapshot ? frameFromState(snapshot.state) : await replayBaseFrame(id);
+    let start = snapshot ? snapshot.eventId + 1 : firstId;
+
+    while (start < length && frames.length < timestamps.length) {
+        const stop = Math.min(length - 1, start + REPLAY_CHUNK - 1);
+        const events = await readLogRange(id, start, stop);
+        for (const event of events) {
+            while (frames.length < timestamps.length && event.timestampMs > timestamps[frames.length]) {
+                frames.push(cloneFrame(frame));
+            }
+            if (frames.length === timestamps.length) break;
+            frame = applyCanvasEvent(frame, event);
+        }
+        start = stop + 1;
+    }
+    while (frames.length < timestamps.length) frames.push(cloneFrame(frame));
+    return frames;
+}
+
+// Rebuilds the canvas as it was at the given time by folding logged events onto
+// the nearest earlier snapshot (or a blank canvas at the start of the log).
+export async function getCanvasAt(timestampMs: number, canvasId?: string): Promise<CanvasState> {
+    if (!Number.isFinite(timestampMs)) {
+        throw new Error("timestampMs must be a finite number");
+    }
+    if (timestampMs >= Date.now()) {
+        return getCanvas(canvasId);
+    }
+    const [frame] = await getCanvasFrames([timestampMs], canvasId);
+    return stateFromFrame(frame);
+}
+
+// --- Retention -----------------------------------------------------------
+
+export type RetentionPolicy = {
+    maxEvents: number; // 0 keeps every event
+    maxAgeMs: number; // 0 keeps events of any age
+};
+
+export function getRetentionPolicy(): RetentionPolicy {
+    return {
+        maxEvents: readIntEnv("CANVAS_EVENT_RETENTION", 0),
+        maxAgeMs: readIntEnv("CANVAS_EVENT_RETENTION_MS", 0),
+    };
+}
+
+export type CompactionResult = {
+    firstEventId: number; // oldest event still in the log
+    removedEvents: number;
+    snapshotEventId?: number; // snapshot the removed events were folded into
+    removedSnapshots: number; // older snapshots that no replay can reach anymore
+};
+
+// First event id at or after `from` logged at or after the given time (the
+// log's length if there is none)
+async function firstEventIdSince(canvasId: string, from: number, length: number, timestampMs: number): Promise<number> {
+    for (let start = from; start < length; start += EVENT_SCAN_CHUNK) {
+        const stop = Math.min(length - 1, start + EVENT_SCAN_CHUNK - 1);
+        const event = (await readLogRange(canvasId, start, stop)).find((e) => e.timestampMs >= timestampMs);
+        if (event) return event.id;
+    }
+    return length;
+}
+
+// Canvas right after the given event, folded from the nearest snapshot at or
+// before it. The retained log must reach back to that snapshot.
+async function snapshotAtEventId(canvasId: string, eventId: number, firstId: number): Promise<CanvasSnapshot> {
+    const index = await readSnapshotIndex(canvasId);
+    const baseId = newestSnapshotId(index, (id) => id <= eventId && id >= firstId - 1);
+    const base = baseId === -1 ? null : await readSnapshot(canvasId, baseId);
+    if (!base && firstId > 0) {
+        throw new Error(`No snapshot of canvas "${canvasId}" covers event ${firstId - 1}`);
+    }
+    if (base?.eventId === eventId) return base;
+    let frame = base ? frameFromState(base.state) : await replayBaseFrame(canvasId);
+    let timestampMs = base?.timestampMs ?? 0;
+    for (let start = base ? base.eventId + 1 : 0; start <= eventId; start += REPLAY_CHUNK) {
+        const stop = Math.min(eventId, start + REPLAY_CHUNK - 1);
+        for (const event of await readLogRange(canvasId, start, stop)) {
+            frame = applyCanvasEvent(frame, event);
+            timestampMs = event.timestampMs;
+        }
+    }
+    return { eventId, timestampMs, state: stateFromFrame(frame) };
+}
+
+// Drops events the policy no longer keeps from the head of the log, after folding
+// them into a snapshot so time travel and timelapses still start from the right
+// canvas. Safe to run alongside writers: only the head of the log is trimmed.
+export async function compactEventLog(params: { canvasId?: string; policy?: RetentionPolicy; nowMs?: number } = {}): Promise<CompactionResult> {
+    const canvasId = resolveCanvasId(params.canvasId);
+    const policy = params.policy ?? getRetentionPolicy();
+    const store = getCanvasStore();
+    const firstId = await store.firstEventId(canvasId);
+    const length = await store.countEvents(canvasId);
+
+    let cutoff = firstId;
+    if (policy.maxEvents > 0) cutoff = Math.max(cutoff, length - policy.maxEvents);
+    if (policy.maxAgeMs > 0) {
+        const threshold = (params.nowMs ?? Date.now()) - policy.maxAgeMs;
+        cutoff = Math.max(cutoff, await firstEventIdSince(canvasId, cutoff, length, threshold));
+    }
+    if (cutoff <= firstId) return { firstEventId: firstId, removedEvents: 0, removedSnapshots: 0 };
+
+    const snapshot = await snapshotAtEventId(canvasId, cutoff - 1, firstId);
+    await writeSnapshot(store, canvasId, snapshot);
+    await store.trimEvents(canvasId, cutoff);
+    const firstEventId = await store.firstEventId(canvasId);
+    const removedSnapshots = await pruneSnapshots(store, canvasId, Math.min(snapshot.eventId, firstEventId - 1));
+    return { firstEventId, removedEvents: firstEventId - firstId, snapshotEventId: snapshot.eventId, removedSnapshots };
+}
+
+// Deletes the snapshots before `baseId`, the replay base of the trimmed log. Index
+// entries go first, so readers never find an entry without its snapshot.
+async function pruneSnapshots(store: CanvasStore, canvasId: string, baseId: number): Promise<number> {
+    const stale = Object.keys(await readSnapshotIndex(canvasId)).filter((id) => Number(id) < baseId);
+    for (const id of stale) {
+        await store.deleteHashField(canvasScopedKey(SNAPSHOT_INDEX_HASH_KEY, canvasId), id);
+        await store.deleteHashField(canvasScopedKey(SNAPSHOTS_HASH_KEY, canvasId), id);
+    }
+    return stale.length;
+}
@@ -0,0 +1,185 @@
+// CSS color parsing and perceptual color distance, used to validate and snap
+// colors against the canvas palette.
+
+export type Rgba = { r: number; g: number; b: number; a: number }; // channels 0-255, alpha 0-1
+
+// CSS Color Module Level 4 named colors
+const NAMED_COLORS: Record<string, number> = {
+    aliceblue: 0xf0f8ff, antiquewhite: 0xfaebd7, aqua: 0x00ffff, aquamarine: 0x7fffd4, azure: 0xf0ffff,
+    beige: 0xf5f5dc, bisque: 0xffe4c4, black: 0x000000, blanchedalmond: 0xffebcd, blue: 0x0000ff,
+    blueviolet: 0x8a2be2, brown: 0xa52a2a, burlywood: 0xdeb887, cadetblue: 0x5f9ea0, chartreuse: 0x7fff00,
+    chocolate: 0xd2691e, coral: 0xff7f50, cornflowerblue: 0x6495ed, cornsilk: 0xfff8dc, crimson: 0xdc143c,
+    cyan: 0x00ffff, darkblue: 0x00008b, darkcyan: 0x008b8b, darkgoldenrod: 0xb8860b, darkgray: 0xa9a9a9,
+    darkgreen: 0x006400, darkgrey: 0xa9a9a9, darkkhaki: 0xbdb76b, darkmagenta: 0x8b008b,
+    darkolivegreen: 0x556b2f, darkorange: 0xff8c00, darkorchid: 0x9932cc, darkred: 0x8b0000,
+    darksalmon: 0xe9967a, darkseagreen: 0x8fbc8f, darkslateblue: 0x483d8b, darkslategray: 0x2f4f4f,
+    darkslategrey: 0x2f4f4f, darkturquoise: 0x00ced1, darkviolet: 0x9400d3, deeppink: 0xff1493,
+    deepskyblue: 0x00bfff, dimgray: 0x696969, dimgrey: 0x696969, dodgerblue: 0x1e90ff, firebrick: 0xb22222,
+    floralwhite: 0xfffaf0, forestgreen: 0x228b22, fuchsia: 0xff00ff, gainsboro: 0xdcdcdc,
+    ghostwhite: 0xf8f8ff, gold: 0xffd700, goldenrod: 0xdaa520, gray: 0x808080, green: 0x008000,
+    greenyellow: 0xadff2f, grey: 0x808080, honeydew: 0xf0fff0, hotpink: 0xff69b4, indianred: 0xcd5c5c,
+    indigo: 0x4b0082, ivory: 0xfffff0, khaki: 0xf0e68c, lavender: 0xe6e6fa, lavenderblush: 0xfff0f5,
+    lawngreen: 0x7cfc00, lemonchiffon: 0xfffacd, lightblue: 0xadd8e6, lightcoral: 0xf08080,
+    lightcyan: 0xe0ffff, lightgoldenrodyellow: 0xfafad2, lightgray: 0xd3d3d3, lightgreen: 0x90ee90,
+    lightgrey: 0xd3d3d3, lightpink: 0xffb6c1, lightsalmon: 0xffa07a, lightseagreen: 0x20b2aa,
+    lightskyblue: 0x87cefa, lightslategray: 0x778899, lightslategrey: 0x778899, lightsteelblue: 0xb0c4de,
+    lightyellow: 0xffffe0, lime: 0x00ff00, limegreen: 0x32cd32, linen: 0xfaf0e6, magenta: 0xff00ff,
+    maroon: 0x800000, mediumaquamarine: 0x66cdaa, mediumblue: 0x0000cd, mediumorchid: 0xba55d3,
+    mediumpurple: 0x9370db, mediumseagreen: 0x3cb371, mediumslateblue: 0x7b68ee, mediumspringgreen: 0x00fa9a,
+    mediumturquoise: 0x48d1cc, mediumvioletred: 0xc71585, midnightblue: 0x191970, mintcream: 0xf5fffa,
+    mistyrose: 0xffe4e1, moccasin: 0xffe4b5, navajowhite: 0xffdead, navy: 0x000080, oldlace: 0xfdf5e6,
+    olive: 0x808000, olivedrab: 0x6b8e23, orange: 0xffa500, orangered: 0xff4500, orchid: 0xda70d6,
+    palegoldenrod: 0xeee8aa, palegreen: 0x98fb98, paleturquoise: 0xafeeee, palevioletred: 0xdb7093,
+    papayawhip: 0xffefd5, peachpuff: 0xffdab9, peru: 0xcd853f, pink: 0xffc0cb, plum: 0xdda0dd,
+    powderblue: 0xb0e0e6, purple: 0x800080, rebeccapurple: 0x663399, red: 0xff0000, rosybrown: 0xbc8f8f,
+    royalblue: 0x4169e1, saddlebrown: 0x8b4513, salmon: 0xfa8072, sandybrown: 0xf4a460, seagreen: 0x2e8b57,
+    seashell: 0xfff5ee, sienna: 0xa0522d, silver: 0xc0c0c0, skyblue: 0x87ceeb, slateblue: 0x6a5acd,
+    slategray: 0x708090, slategrey: 0x708090, snow: 0xfffafa, springgreen: 0x00ff7f, steelblue: 0x4682b4,
+    tan: 0xd2b48c, teal: 0x008080, thistle: 0xd8bfd8, tomato: 0xff6347, turquoise: 0x40e0d0, violet: 0xee82ee,
+    wheat: 0xf5deb3, white: 0xffffff, whitesmoke: 0xf5f5f5, yellow: 0xffff00, yellowgreen: 0x9acd32,
+};
+
+function clampByte(value: number): number {
+    return Math.max(0, Math.min(255, Math.round(value)));
+}
+
+function parseChannel(token: string): number | null {
+    const value = parseFloat(token);
+    if (!Number.isFinite(value)) return null;
+    return token.endsWith("%") ? clampByte((value / 100) * 255) : clampByte(value);
+}
+
+function parseAlpha(token: string | undefined): number | null {
+    if (token === undefined) return 1;
+    const value = parseFloat(token);
+    if (!Number.isFinite(value)) return null;
+    return Math.max(0, Math.min(1, token.endsWith("%") ? value / 100 : value));
+}
+
+function parseHue(token: string): number | null {
+    const value = parseFloat(token);
+    if (!Number.isFinite(value)) return null;
+    if (token.endsWith("turn")) return value * 360;
+    if (token.endsWith("rad")) return (value * 180) / Math.PI;
+    if (token.endsWith("grad")) return value * 0.9;
+    return value;
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+    const hue = ((h % 360) + 360) % 360;
+    const c = (1 - Math.abs(2 * l - 1)) * s;
+    const x = c * (1 - Math.abs(((hue / 60) % 2) - 1));
+    const m = l - c / 2;
+    const [r, g, b] =
+        hue < 60 ? [c, x, 0] : hue < 120 ? [x, c, 0] : hue < 180 ? [0, c, x] : hue < 240 ? [0, x, c] : hue < 300 ? [x, 0, c] : [c, 0, x];
+    return [clampByte((r + m) * 255), clampByte((g + m) * 255), clampByte((b + m) * 255)];
+}
+
+// Splits "1, 2, 3 / 0.5" or "1 2 3 / 50%" into its components
+function functionArgs(body: string): string[] {
+    return body.replace("/", " ").split(/[\s,]+/).filter(Boolean);
+}
+
+// Parses hex (#rgb, #rgba, #rrggbb, #rrggbbaa), rgb()/rgba(), hsl()/hsla() and
+// named colors. Returns null for anything else.
+export function parseColor(input: string): Rgba | null {
+    const value = input.trim().toLowerCase();
+    if (value === "transparent") return { r: 0, g: 0, b: 0, a: 0 };
+    const named = NAMED_COLORS[value];
+    if (named !== undefined) return { r: (named >> 16) & 255, g: (named >> 8) & 255, b: named & 255, a: 1 };
+
+    const hex = value.match(/^#([0-9a-f]{3,8})$/);
+    if (hex) {
+        let digits = hex[1];
+        if (digits.length === 3 || digits.length === 4) {
+            digits = digits.split("").map((d) => d + d).join("");
+        }
+        if (digits.length !== 6 && digits.length !== 8) return null;
+        const n = (i: number) => parseInt(digits.slice(i, i + 2), 16);
+        return { r: n(0), g: n(2), b: n(4), a: digits.length === 8 ? n(6) / 255 : 1 };
+    }
+
+    const fn = value.match(/^(rgba?|hsla?)\((.*)\)$/);
+    if (!fn) return null;
+    const args = functionArgs(fn[2]);
+    if (args.length !== 3 && args.length !== 4) return null;
+    const a = parseAlpha(args[3]);
+    if (a === null) return null;
+    if (fn[1].startsWith("rgb")) {
+        const [r, g, b] = args.slice(0, 3).map(parseChannel);
+        if (r === null || g === null || b === null) return null;
+        return { r, g, b, a };
+    }
+    const h = parseHue(args[0]);
+    const s = parseFloat(args[1]);
+    const l = parseFloat(args[2]);
+    if (h === null || !Number.isFinite(s) || !Number.isFinite(l)) return null;
+    const [r, g, b] = hslToRgb(h, Math.max(0, Math.min(1, s / 100)), Math.max(0, Math.min(1, l / 100)));
+    return { r, g, b, a };
+}
+
+export function toHex(color: { r: number; g: number; b: number }): string {
+    return `#${[color.r, color.g, color.b].map((c) => clampByte(c).toString(16).padStart(2, "0")).join("")}`;
+}
+
+export type Lab = { l: number; a: number; b: number };
+
+function srgbToLinear(channel: number): number {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+// sRGB → CIE L*a*b* (D65 white point)
+export function rgbToLab(color: { r: number; g: number; b: number }): Lab {
+    const r = srgbToLinear(color.r);
+    const g = srgbToLinear(color.g);
+    const b = srgbToLinear(color.b);
+    const x = (r * 0.4124 + g * 0.3576 + b * 0.1805) / 0.95047;
+    const y = r * 0.2126 + g * 0.7152 + b * 0.0722;
+    const z = (r * 0.0193 + g * 0.1192 + b * 0.9505) / 1.08883;
+    const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (841 / 108) * t + 4 / 29);
+    const fx = f(x);
+    const fy = f(y);
+    const fz = f(z);
+    return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+}
+
+// Squared CIE76 distance; good enough to rank palette entries by perceived similarity
+export function labDistanceSquared(p: Lab, q: Lab): number {
+    return (p.l - q.l) ** 2 + (p.a - q.a) ** 2 + (p.b - q.b) ** 2;
+}
+
+// Returns a function mapping colors to the index of the closest palette entry
+// (-1 if no entry parses). Palette colors are converted once and results cached,
+// which matters when quantizing whole images.
+export function createPaletteMatcher(palette: string[]): (color: { r: number; g: number; b: number }) => number {
+    const entries: { index: number; lab: Lab }[] = [];
+    palette.forEach((entry, index) => {
+        const parsed = parseColor(entry);
+        if (parsed) entries.push({ index, lab: rgbToLab(parsed) });
+    });
+    const cache = new Map<number, number>();
+    return (color) => {
+        const rgb = { r: clampByte(color.r), g: clampByte(color.g), b: clampByte(color.b) };
+        const key = (rgb.r << 16) | (rgb.g << 8) | rgb.b;
+        const cached = cache.get(key);
+        if (cached !== undefined) return cached;
+        const target = rgbToLab(rgb);
+        let best = -1;
+        let bestDistance = Number.POSITIVE_INFINITY;
+        for (const { index, lab } of entries) {
+            const distance = labDistanceSquared(target, lab);
+            if (distance < bestDistance) {
+                best = index;
+                bestDistance = distance;
+            }
+        }
+        cache.set(key, best);
+        return best;
+    };
+}
+
+// Index of the palette entry closest to the color, or -1 if no entry parses
+export function nearestPaletteIndex(palette: string[], color: { r: number; g: number; b: number }): number {
+    return createPaletteMatcher(palette)(color);
+}
@@ -0,0 +1,226 @@
+// Rasterizers for the drawing tools. Each returns the cells a shape covers,
+// clipped to the canvas and without duplicates; committing them is up to lib/canvas.ts.
+
+export type Point = { x: number; y: number };
+
+type Bounds = { width: number; height: number };
+
+// Collects points in drawing order, dropping duplicates and anything off the canvas
+function createPointSet(bounds: Bounds) {
+    const seen = new Set<number>();
+    const points: Point[] = [];
+    return {
+        add(x: number, y: number) {
+            if (x < 0 || y < 0 || x >= bounds.width || y >= bounds.height) return;
+            const key = y * bounds.width + x;
+            if (seen.has(key)) return;
+            seen.add(key);
+            points.push({ x, y });
+        },
+        points,
+    };
+}
+
+// Bresenham's line algorithm, endpoints included
+export function rasterizeLine(bounds: Bounds, x0: number, y0: number, x1: number, y1: number): Point[] {
+    const set = createPointSet(bounds);
+    const dx = Math.abs(x1 - x0);
+    const dy = -Math.abs(y1 - y0);
+    const sx = x0 < x1 ? 1 : -1;
+    const sy = y0 < y1 ? 1 : -1;
+    let err = dx + dy;
+    let x = x0;
+    let y = y0;
+    for (; ;) {
+        set.add(x, y);
+        if (x === x1 && y === y1) break;
+        const e2 = 2 * err;
+        if (e2 >= dy) {
+            err += dy;
+            x += sx;
+        }
+        if (e2 <= dx) {
+            err += dx;
+            y += sy;
+        }
+    }
+    return set.points;
+}
+
+export function rasterizeRect(bounds: Bounds, x: number, y: number, width: number, height: number, filled: boolean): Point[] {
+    const set = createPointSet(bounds);
+    // Only visit the part that can land on the canvas
+    const top = Math.max(y, 0);
+    const bottom = Math.min(y + height - 1, bounds.height - 1);
+    const left = Math.max(x, 0);
+    const right = Math.min(x + width - 1, bounds.width - 1);
+    for (let py = top; py <= bottom; py++) {
+        const edgeRow = py === y || py === y + height - 1;
+        for (let px = left; px <= right; px++) {
+            if (filled || edgeRow || px === x || px === x + width - 1) set.add(px, py);
+        }
+    }
+    return set.points;
+}
+
+// Midpoint circle algorithm; filled circles are drawn as horizontal spans
+export function rasterizeCircle(bounds: Bounds, cx: number, cy: number, radius: number, filled: boolean): Point[] {
+    const set = createPointSet(bounds);
+    const span = (y: number, fromX: number, toX: number) => {
+        for (let x = Math.max(fromX, 0); x <= Math.min(toX, bounds.width - 1); x++) set.add(x, y);
+    };
+    let x = radius;
+    let y = 0;
+    let err = 1 - radius;
+    while (x >= y) {
+        if (filled) {
+            span(cy + y, cx - x, cx + x);
+            span(cy - y, cx - x, cx + x);
+            span(cy + x, cx - y, cx + y);
+            span(cy - x, cx - y, cx + y);
+        } else {
+            for (const [px, py] of [[x, y], [y, x], [-y, x], [-x, y], [-x, -y], [-y, -x], [y, -x], [x, -y]]) {
+                set.add(cx + px, cy + py);
+            }
+        }
+        y++;
+        if (err < 0) {
+            err += 2 * y + 1;
+        } else {
+            x--;
+            err += 2 * (y - x) + 1;
+        }
+    }
+    return set.points;
+}
+
+// 4-connected region of cells sharing the seed's palette index
+export function floodFillRegion(pixels: Uint8Array, bounds: Bounds, x: number, y: number, maxPoints: number): Point[] {
+    const { width, height } = bounds;
+    if (x < 0 || y < 0 || x >= width || y >= height) return [];
+    const target = pixels[y * width + x];
+    const visited = new Uint8Array(width * height);
+    const points: Point[] = [];
+    const stack = [y * width + x];
+    visited[y * width + x] = 1;
+    while (stack.length > 0) {
+        const index = stack.pop()!;
+        const px = index % width;
+        const py = (index - px) / width;
+        points.push({ x: px, y: py });
+        if (points.length > maxPoints) {
+            throw new Error(`Fill area exceeds the limit of ${maxPoints} pixels`);
+        }
+        const neighbors = [
+            px > 0 ? index - 1 : -1,
+            px < width - 1 ? index + 1 : -1,
+            py > 0 ? index - width : -1,
+            py < height - 1 ? index + width : -1,
+        ];
+        for (const n of neighbors) {
+            if (n !== -1 && !visited[n] && pixels[n] === target) {
+                visited[n] = 1;
+                stack.push(n);
+            }
+        }
+    }
+    return points;
+}
+
+export const FONT_WIDTH = 5;
+export const FONT_HEIGHT = 7;
+
+// 5x7 bitmap font, one number per row with the leftmost pixel in the highest bit.
+// Lowercase letters are drawn as uppercase; anything else unknown as "?".
+const FONT: Record<string, number[]> = {
+    " ": [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00],
+    "A": [0x0e, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+    "B": [0x1e, 0x11, 0x11, 0x1e, 0x11, 0x11, 0x1e],
+    "C": [0x0e, 0x11, 0x10, 0x10, 0x10, 0x11, 0x0e],
+    "D": [0x1c, 0x12, 0x11, 0x11, 0x11, 0x12, 0x1c],
+    "E": [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x1f],
+    "F": [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x10],
+    "G": [0x0e, 0x11, 0x10, 0x17, 0x11, 0x11, 0x0f],
+    "H": [0x11, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+    "I": [0x0e, 0x04, 0x04, 0x04, 0x04, 0x04, 0x0e],
+    "J": [0x07, 0x02, 0x02, 0x02, 0x02, 0x12, 0x0c],
+    "K": [0x11, 0x12, 0x14, 0x18, 0x14, 0x12, 0x11],
+    "L": [0x10, 0x10, 0x10, 0x10, 0x10, 0x10, 0x1f],
+    "M": [0x11, 0x1b, 0x15, 0x15, 0x11, 0x11, 0x11],
+    "N": [0x11, 0x11, 0x19, 0x15, 0x13, 0x11, 0x11],
+    "O": [0x0e, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+    "P": [0x1e, 0x11, 0x11, 0x1e, 0x10, 0x10, 0x10],
+    "Q": [0x0e, 0x11, 0x11, 0x11, 0x15, 0x12, 0x0d],
+    "R": [0x1e, 0x11, 0x11, 0x1e, 0x14, 0x12, 0x11],
+    "S": [0x0f, 0x10, 0x10, 0x0e, 0x01, 0x01, 0x1e],
+    "T": [0x1f, 0x04, 0x04, 0x04, 0x04, 0x04, 0x04],
+    "U": [0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+    "V": [0x11, 0x11, 0x11, 0x11, 0x11, 0x0a, 0x04],
+    "W": [0x11, 0x11, 0x11, 0x15, 0x15, 0x15, 0x0a],
+    "X": [0x11, 0x11, 0x0a, 0x04, 0x0a, 0x11, 0x11],
+    "Y": [0x11, 0x11, 0x0a, 0x04, 0x04, 0x04, 0x04],
+    "Z": [0x1f, 0x01, 0x02, 0x04, 0x08, 0x10, 0x1f],
+    "0": [0x0e, 0x11, 0x13, 0x15, 0x19, 0x11, 0x0e],
+    "1": [0x04, 0x0c, 0x04, 0x04, 0x04, 0x04, 0x0e],
+    "2": [0x0e, 0x11, 0x01, 0x02, 0x04, 0x08, 0x1f],
+    "3": [0x1f, 0x02, 0x04, 0x02, 0x01, 0x11, 0x0e],
+    "4": [0x02, 0x06, 0x0a, 0x12, 0x1f, 0x02, 0x02],
+    "5": [0x1f, 0x10, 0x1e, 0x01, 0x01, 0x11, 0x0e],
+    "6": [0x06, 0x08, 0x10, 0x1e, 0x11, 0x11, 0x0e],
+    "7": [0x1f, 0x01, 0x02, 0x04, 0x08, 0x08, 0x08],
+    "8": [0x0e, 0x11, 0x11, 0x0e, 0x11, 0x11, 0x0e],
+    "9": [0x0e, 0x11, 0x11, 0x0f, 0x01, 0x02, 0x0c],
+    "!": [0x04, 0x04, 0x04, 0x04, 0x04, 0x00, 0x04],
+    "?": [0x0e, 0x11, 0x01, 0x02, 0x04, 0x00, 0x04],
+    ".": [0x00, 0x00, 0x00, 0x00, 0x00, 0x0c, 0x0c],
+    ",": [0x00, 0x00, 0x00, 0x00, 0x0c, 0x04, 0x08],
+    ":": [0x00, 0x0c, 0x0c, 0x00, 0x0c, 0x0c, 0x00],
+    ";": [0x00, 0x0c, 0x0c, 0x00, 0x0c, 0x04, 0x08],
+    "'": [0x04, 0x04, 0x08, 0x00, 0x00, 0x00, 0x00],
+    "\"": [0x0a, 0x0a, 0x0a, 0x00, 0x00, 0x00, 0x00],
+    "-": [0x00, 0x00, 0x00, 0x1f, 0x00, 0x00, 0x00],
+    "+": [0x00, 0x04, 0x04, 0x1f, 0x04, 0x04, 0x00],
+    "=": [0x00, 0x00, 0x1f, 0x00, 0x1f, 0x00, 0x00],
+    "_": [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x1f],
+    "*": [0x00, 0x04, 0x15, 0x0e, 0x15, 0x04, 0x00],
+    "/": [0x00, 0x01, 0x02, 0x04, 0x08, 0x10, 0x00],
+    "(": [0x02, 0x04, 0x08, 0x08, 0x08, 0x04, 0x02],
+    ")": [0x08, 0x04, 0x02, 0x02, 0x02, 0x04, 0x08],
+    "[": [0x0e, 0x08, 0x08, 0x08, 0x08, 0x08, 0x0e],
+    "]": [0x0e, 0x02, 0x02, 0x02, 0x02, 0x02, 0x0e],
+    "<": [0x02, 0x04, 0x08, 0x10, 0x08, 0x04, 0x02],
+    ">": [0x08, 0x04, 0x02, 0x01, 0x02, 0x04, 0x08],
+    "#": [0x0a, 0x0a, 0x1f, 0x0a, 0x1f, 0x0a, 0x0a],
+    "%": [0x18, 0x19, 0x02, 0x04, 0x08, 0x13, 0x03],
+    "&": [0x0c, 0x12, 0x14, 0x08, 0x15, 0x12, 0x0d],
+    "@": [0x0e, 0x11, 0x01, 0x0d, 0x15, 0x15, 0x0e],
+    "$": [0x04, 0x0f, 0x14, 0x0e, 0x05, 0x1e, 0x04],
+};
+
+// Draws text with its top-left corner at (x, y). Glyphs advance by one blank
+// column, lines by one blank row; `scale` enlarges each font pixel to a square.
+export function rasterizeText(bounds: Bounds, x: number, y: number, text: string, scale: number): Point[] {
+    const set = createPointSet(bounds);
+    let originX = x;
+    let originY = y;
+    for (const char of text) {
+        if (char === "\n") {
+            originX = x;
+            originY += (FONT_HEIGHT + 1) * scale;
+            continue;
+        }
+        const glyph = FONT[char.toUpperCase()] ?? FONT["?"];
+        for (let row = 0; row < FONT_HEIGHT; row++) {
+            for (let col = 0; col < FONT_WIDTH; col++) {
+                if (!(glyph[row] & (1 << (FONT_WIDTH - 1 - col)))) continue;
+                for (let dy = 0; dy < scale; dy++) {
+                    for (let dx = 0; dx < scale; dx++) {
+                        set.add(originX + col * scale + dx, originY + row * scale + dy);
+                    }
+                }
+            }
+        }
+        originX += (FONT_WIDTH + 1) * scale;
+    }
+    return set.points;
+}
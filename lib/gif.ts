@@ -0,0 +1,196 @@
+import { paletteToRgb } from "@/lib/image";
+
+// Minimal animated GIF (GIF89a) encoder for palette-indexed frames. Canvas palettes
+// have at most 256 entries, so every frame maps directly onto a GIF color table.
+
+export type GifFrame = {
+    width: number;
+    height: number;
+    palette: string[];
+    pixels: Uint8Array; // palette indices, row-major
+    delayMs: number;
+};
+
+// Growable byte buffer
+function createWriter() {
+    let buffer = new Uint8Array(1024);
+    let length = 0;
+    const ensure = (extra: number) => {
+        if (length + extra <= buffer.length) return;
+        let size = buffer.length * 2;
+        while (size < length + extra) size *= 2;
+        const next = new Uint8Array(size);
+        next.set(buffer.subarray(0, length));
+        buffer = next;
+    };
+    return {
+        byte(value: number) {
+            ensure(1);
+            buffer[length++] = value;
+        },
+        bytes(values: ArrayLike<number>) {
+            ensure(values.length);
+            buffer.set(values, length);
+            length += values.length;
+        },
+        uint16(value: number) {
+            this.byte(value & 0xff);
+            this.byte((value >> 8) & 0xff);
+        },
+        ascii(text: string) {
+            for (let i = 0; i < text.length; i++) this.byte(text.charCodeAt(i));
+        },
+        result(): Uint8Array<ArrayBuffer> {
+            return buffer.slice(0, length);
+        },
+    };
+}
+
+type Writer = ReturnType<typeof createWriter>;
+
+// Color tables hold 2^(n+1) entries; returns n for the smallest table fitting `count` colors
+function colorTableSizeBits(count: number): number {
+    let bits = 0;
+    while (1 << (bits + 1) < count) bits++;
+    return bits;
+}
+
+// Table size for a frame, large enough for stray indices beyond the palette
+function frameTableBits(frame: GifFrame): number {
+    let maxIndex = 0;
+    for (let i = 0; i < frame.pixels.length; i++) {
+        if (frame.pixels[i] > maxIndex) maxIndex = frame.pixels[i];
+    }
+    return colorTableSizeBits(Math.max(frame.palette.length, maxIndex + 1));
+}
+
+function writeColorTable(out: Writer, palette: string[], sizeBits: number): void {
+    const table = new Uint8Array(3 << (sizeBits + 1));
+    table.set(paletteToRgb(palette).subarray(0, table.length));
+    out.bytes(table);
+}
+
+// Variable-width LZW as specified for GIF, emitted LSB-first in 255-byte sub-blocks
+function writeImageData(out: Writer, indices: Uint8Array, minCodeSize: number): void {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    const table = new Map<number, number>();
+
+    const block = new Uint8Array(255);
+    let blockLength = 0;
+    let bitBuffer = 0;
+    let bitCount = 0;
+    const flushBlock = () => {
+        if (blockLength === 0) return;
+        out.byte(blockLength);
+        out.bytes(block.subarray(0, blockLength));
+        blockLength = 0;
+    };
+    const emit = (code: number) => {
+        bitBuffer |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            block[blockLength++] = bitBuffer & 0xff;
+            if (blockLength === 255) flushBlock();
+            bitBuffer >>>= 8;
+            bitCount -= 8;
+        }
+    };
+
+    out.byte(minCodeSize);
+    emit(clearCode);
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const k = indices[i];
+        const key = prefix * 256 + k;
+        const existing = table.get(key);
+        if (existing !== undefined) {
+            prefix = existing;
+            continue;
+        }
+        emit(prefix);
+        if (nextCode === 4096) {
+            // Table full: start over rather than keep emitting 12-bit codes
+            emit(clearCode);
+            table.clear();
+            codeSize = minCodeSize + 1;
+            nextCode = endCode + 1;
+        } else {
+            if (nextCode >= 1 << codeSize) codeSize++;
+            table.set(key, nextCode++);
+        }
+        prefix = k;
+    }
+    emit(prefix);
+    emit(endCode);
+    if (bitCount > 0) {
+        block[blockLength++] = bitBuffer & 0xff;
+        if (blockLength === 255) flushBlock();
+    }
+    flushBlock();
+    out.byte(0); // block terminator
+}
+
+// Encodes frames into a looping GIF. The first frame's palette becomes the global
+// color table; frames with a different palette carry their own local table. Frames
+// may differ in size (after resizes); each is drawn at the top-left of a screen as
+// large as the largest frame and cleared to the background before the next one.
+export function encodeGif(frames: GifFrame[], options: { loop?: boolean } = {}): Uint8Array<ArrayBuffer> {
+    if (frames.length === 0) {
+        throw new Error("A GIF needs at least one frame");
+    }
+    const out = createWriter();
+    const screenWidth = Math.max(...frames.map((f) => f.width));
+    const screenHeight = Math.max(...frames.map((f) => f.height));
+    if (screenWidth > 0xffff || screenHeight > 0xffff) {
+        throw new Error("GIF dimensions are limited to 65535 pixels");
+    }
+    const globalPalette = frames[0].palette;
+    const globalBits = frameTableBits(frames[0]);
+
+    out.ascii("GIF89a");
+    out.uint16(screenWidth);
+    out.uint16(screenHeight);
+    out.byte(0x80 | 0x70 | globalBits); // global table, 8-bit color resolution
+    out.byte(0); // background color index
+    out.byte(0); // no aspect ratio
+    writeColorTable(out, globalPalette, globalBits);
+
+    if (options.loop !== false && frames.length > 1) {
+        out.bytes([0x21, 0xff, 0x0b]);
+        out.ascii("NETSCAPE2.0");
+        out.bytes([0x03, 0x01, 0x00, 0x00, 0x00]); // loop forever
+    }
+
+    for (const frame of frames) {
+        if (frame.pixels.length !== frame.width * frame.height) {
+            throw new Error("Frame pixel count does not match its dimensions");
+        }
+        const frameBits = frameTableBits(frame);
+        const usesGlobal =
+            frameBits <= globalBits &&
+            frame.palette.length === globalPalette.length &&
+            frame.palette.every((c, i) => c === globalPalette[i]);
+        const bits = usesGlobal ? globalBits : frameBits;
+
+        // Graphic control extension: disposal 2 (restore to background), delay in centiseconds
+        out.bytes([0x21, 0xf9, 0x04, 0x08]);
+        out.uint16(Math.max(0, Math.min(0xffff, Math.round(frame.delayMs / 10))));
+        out.bytes([0x00, 0x00]);
+
+        out.byte(0x2c);
+        out.uint16(0);
+        out.uint16(0);
+        out.uint16(frame.width);
+        out.uint16(frame.height);
+        out.byte(usesGlobal ? 0 : 0x80 | bits);
+        if (!usesGlobal) writeColorTable(out, frame.palette, bits);
+
+        writeImageData(out, frame.pixels, Math.max(2, bits + 1));
+    }
+
+    out.byte(0x3b);
+    return out.result();
+}
@@ -0,0 +1,41 @@
+import { createHash } from "crypto";
+
+type HeaderBag = Headers | Record<string, string | string[] | undefined>;
+
+// The parts of an MCP tool call's `extra` argument that identify the caller
+export type McpCallerInfo = {
+    sessionId?: string;
+    authInfo?: { clientId: string };
+    requestInfo?: { headers: Record<string, string | string[] | undefined> };
+};
+
+function readHeader(headers: HeaderBag, name: string): string | undefined {
+    if (headers instanceof Headers) {
+        return headers.get(name) ?? undefined;
+    }
+    const value = headers[name] ?? headers[name.toLowerCase()];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+// Short stable digest, so neither secrets nor session ids and addresses end up in
+// the event log or in anything shown to other callers
+function fingerprint(secret: string): string {
+    return createHash("sha256").update(secret).digest("hex").slice(0, 12);
+}
+
+// Caller identity for plain HTTP requests: the client address. Bearer tokens that
+// didn't verify are ignored, since a caller could pick a new one per request.
+export function clientIdFromHeaders(headers: HeaderBag): string {
+    const ip = readHeader(headers, "x-forwarded-for")?.split(",")[0]?.trim() || readHeader(headers, "x-real-ip")?.trim();
+    return ip ? `ip:${fingerprint(ip)}` : "anonymous";
+}
+
+// Caller identity for MCP tool calls, from most to least specific: the
+// authenticated client, the MCP session, then the client address. Only session ids
+// issued by the server's transport count; the mcp-session-id header is not read,
+// as the stateless /mcp endpoint never issues or checks it.
+export function identifyMcpCaller(extra: McpCallerInfo): string {
+    if (extra.authInfo?.clientId) return `auth:${extra.authInfo.clientId}`;
+    if (extra.sessionId) return `session:${fingerprint(extra.sessionId)}`;
+    return clientIdFromHeaders(extra.requestInfo?.headers ?? {});
+}
@@ -0,0 +1,42 @@
+import { parseColor } from "@/lib/color";
+
+// Helpers shared by the image encoders: palette conversion and nearest-neighbor scaling
+// of palette-indexed pixels.
+
+// Largest output side produced by the image routes, whatever scale is requested
+export const MAX_IMAGE_SIDE = 4096;
+
+// Packs palette colors as consecutive r, g, b bytes; colors that don't parse become black
+export function paletteToRgb(palette: string[]): Uint8Array {
+    const rgb = new Uint8Array(palette.length * 3);
+    palette.forEach((color, i) => {
+        const parsed = parseColor(color);
+        if (!parsed) return;
+        rgb[i * 3] = parsed.r;
+        rgb[i * 3 + 1] = parsed.g;
+        rgb[i * 3 + 2] = parsed.b;
+    });
+    return rgb;
+}
+
+// Clamps a requested scale so neither side exceeds MAX_IMAGE_SIDE
+export function clampScale(scale: number, width: number, height: number): number {
+    const max = Math.max(1, Math.floor(MAX_IMAGE_SIDE / Math.max(width, height)));
+    return Math.max(1, Math.min(Math.floor(scale) || 1, max));
+}
+
+export function scaleIndexedPixels(pixels: Uint8Array, width: number, height: number, scale: number): Uint8Array {
+    if (scale === 1) return pixels;
+    const scaledWidth = width * scale;
+    const scaled = new Uint8Array(scaledWidth * height * scale);
+    for (let y = 0; y < height; y++) {
+        const row = new Uint8Array(scaledWidth);
+        for (let x = 0; x < width; x++) {
+            row.fill(pixels[y * width + x], x * scale, (x + 1) * scale);
+        }
+        for (let dy = 0; dy < scale; dy++) {
+            scaled.set(row, (y * scale + dy) * scaledWidth);
+        }
+    }
+    return scaled;
+}
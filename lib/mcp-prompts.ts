@@ -0,0 +1,207 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import {
+    canvasExists,
+    decodePixelsFromBase64,
+    getCanvas,
+    getCanvasAt,
+    getCooldownConfig,
+    indexFor,
+    MAX_REGION_CELLS,
+    parseTimestamp,
+    type CanvasMetadata,
+    type CanvasState,
+    type PixelUpdate,
+} from "@/lib/canvas";
+import { renderCanvasPng } from "@/lib/png";
+
+// Prompts for the drawing workflows agents keep being told by hand. Each one
+// embeds the live canvas size and palette, so the agent can start without a
+// round trip to get_canvas.
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+// Prompt arguments are strings; regions are written "x,y,w,h"
+const regionArg = z.string().regex(/^\s*\d+\s*,\s*\d+\s*,\s*\d+\s*,\s*\d+\s*$/, "Expected x,y,w,h");
+
+function parseRegionArg(value: string, meta: CanvasMetadata): Rect {
+    const [x, y, width, height] = value.split(",").map((part) => Number(part.trim()));
+    if (width === 0 || height === 0) {
+        throw new McpError(ErrorCode.InvalidParams, "Region width and height must be positive");
+    }
+    if (x >= meta.width || y >= meta.height) {
+        throw new McpError(ErrorCode.InvalidParams, `Region lies outside the ${meta.width}x${meta.height} canvas`);
+    }
+    // Clip like get_region does
+    return { x, y, width: Math.min(width, meta.width - x), height: Math.min(height, meta.height - y) };
+}
+
+async function loadCanvas(canvasId: string | undefined): Promise<CanvasState> {
+    if (!(await canvasExists(canvasId))) {
+        throw new McpError(ErrorCode.InvalidParams, `Canvas "${canvasId}" does not exist`);
+    }
+    return getCanvas(canvasId);
+}
+
+function describeCanvasMeta(meta: CanvasMetadata, canvasId: string | undefined): string {
+    const policy = meta.palettePolicy ?? "open";
+    const policyNote = {
+        open: "colors outside the palette are appended to it while there is room",
+        strict: "colors outside the palette are rejected",
+        nearest: "other colors snap to the closest palette entry",
+    }[policy];
+    return [
+        `Canvas${canvasId ? ` "${canvasId}"` : ""}: ${meta.width}x${meta.height} pixels, x from 0 to ${meta.width - 1} (left to right), y from 0 to ${meta.height - 1} (top to bottom).`,
+        `Palette (${meta.palette.length} colors, index: color): ${meta.palette.map((color, i) => `${i}: ${color}`).join(", ")}.`,
+        `Palette policy "${policy}": ${policyNote}.`,
+    ].join("\n");
+}
+
+function describeLimits(): string {
+    const { pixelsPerWindow, windowMs, maxBatchSize } = getCooldownConfig();
+    const batch = maxBatchSize > 0 ? `at most ${maxBatchSize} updates per set_pixels call` : "no per-call limit";
+    const budget = pixelsPerWindow > 0 ? `${pixelsPerWindow} pixels every ${Math.round(windowMs / 1000)}s` : "no pixel budget";
+    return `Limits: ${batch}, ${budget} (check get_cooldown; on a cooldown error wait until retryAtMs).`;
+}
+
+function userMessage(text: string) {
+    return { role: "user" as const, content: { type: "text" as const, text } };
+}
+
+export function registerCanvasPrompts(server: McpServer): void {
+    server.registerPrompt(
+        "draw_pixel_art",
+        {
+            title: "Draw pixel art",
+            description: "Plan and paint a piece of pixel art on the canvas in batches, using the canvas palette",
+            argsSchema: {
+                subject: z.string().min(1).max(500).describe("What to draw"),
+                region: regionArg.optional().describe("Area to draw in as x,y,w,h (default: pick a free area)"),
+                canvasId: z.string().max(64).optional().describe("Canvas to draw on (default: the default canvas)"),
+            },
+        },
+        async ({ subject, region, canvasId }) => {
+            const { meta } = await loadCanvas(canvasId);
+            const area = region ? parseRegionArg(region, meta) : undefined;
+            const canvasArg = canvasId ? ` Pass canvasId "${canvasId}" to every tool.` : "";
+            const text = [
+                `Draw pixel art of: ${subject}`,
+                "",
+                describeCanvasMeta(meta, canvasId),
+                describeLimits(),
+                "",
+                area
+                    ? `Draw inside the rectangle x=${area.x}, y=${area.y}, ${area.width}x${area.height}; don't paint outside it.`
+                    : "Choose an area that fits the subject and doesn't cover other people's work: look at the canvas with get_canvas (format \"png\") and check list_regions for claimed areas.",
+                "",
+                "Work like this:",
+                `1. Inspect the area with get_region (at most ${MAX_REGION_CELLS} cells per call) so you know what is there now.${canvasArg}`,
+                "2. Plan the drawing as a grid of palette colors first; use the palette colors above as-is rather than inventing new ones.",
+                "3. Paint with set_pixels in batches within the limits, outlines first, then fills and details. Use the drawing tools (draw_rect, draw_line, draw_circle, flood_fill) for large uniform shapes.",
+                "4. Check each response: retry `rejected` pixels only if the reason allows it, and don't repeat `skipped` ones.",
+                "5. When done, look at the result with get_region or get_canvas and fix mistakes; undo reverts your last batch.",
+            ].join("\n");
+            return { description: `Draw ${subject}`, messages: [userMessage(text)] };
+        }
+    );
+
+    server.registerPrompt(
+        "repair_region",
+        {
+            title: "Repair region",
+            description: "Restore an area of the canvas to how it looked at an earlier time",
+            argsSchema: {
+                region: regionArg.describe("Area to restore as x,y,w,h"),
+                at: z.string().describe("Time to restore to (epoch milliseconds or ISO 8601)"),
+                canvasId: z.string().max(64).optional().describe("Canvas to repair (default: the default canvas)"),
+            },
+        },
+        async ({ region, at, canvasId }) => {
+            const current = await loadCanvas(canvasId);
+            const area = parseRegionArg(region, current.meta);
+            if (area.width * area.height > MAX_REGION_CELLS) {
+                throw new McpError(ErrorCode.InvalidParams, `Region too large: ${area.width * area.height} cells (max ${MAX_REGION_CELLS})`);
+            }
+            const timestampMs = parseTimestamp(at);
+            if (timestampMs === undefined) {
+                throw new McpError(ErrorCode.InvalidParams, `Invalid timestamp: ${at}`);
+            }
+            const past = await getCanvasAt(timestampMs, canvasId);
+
+            // Pixels that differ from the past state; cells the canvas didn't have back then are left out
+            const { meta } = current;
+            const currentPixels = decodePixelsFromBase64(current.pixelsBase64, meta.width * meta.height);
+            const pastPixels = decodePixelsFromBase64(past.pixelsBase64, past.meta.width * past.meta.height);
+            const updates: PixelUpdate[] = [];
+            for (let y = area.y; y < area.y + area.height; y++) {
+                for (let x = area.x; x < area.x + area.width; x++) {
+                    if (x >= past.meta.width || y >= past.meta.height) continue;
+                    const pastColor = past.meta.palette[pastPixels[indexFor(x, y, past.meta.width)]];
+                    if (pastColor?.toLowerCase() !== meta.palette[currentPixels[indexFor(x, y, meta.width)]]?.toLowerCase()) {
+                        updates.push({ x, y, color: pastColor });
+                    }
+                }
+            }
+
+            const when = new Date(timestampMs).toISOString();
+            const canvasArg = canvasId ? ` Pass canvasId "${canvasId}" to every tool.` : "";
+            const lines = [
+                `Restore the rectangle x=${area.x}, y=${area.y}, ${area.width}x${area.height} to how it looked at ${when}.`,
+                "",
+                describeCanvasMeta(meta, canvasId),
+                describeLimits(),
+                "",
+            ];
+            if (updates.length === 0) {
+                lines.push("The area already matches that time; there is nothing to repair. Report this and stop.");
+            } else {
+                lines.push(
+                    `${updates.length} pixels differ from that time. These are the writes that restore them, as set_pixels updates:`,
+                    JSON.stringify(updates),
+                    "",
+                    "Work like this:",
+                    `1. Send the updates with set_pixels and dryRun: true first to see conflicts (claimed regions, palette policy) and your cooldown.${canvasArg}`,
+                    "2. Write them in batches within the limits. The canvas may change meanwhile, so re-read the area with get_region before each batch and only repaint pixels that still differ.",
+                    "3. Colors that the current palette rejects can't be restored exactly; report them instead of substituting other colors.",
+                    "4. Use who_painted or get_events (with the region filter) if you need to explain what happened to the area.",
+                    "5. Finish by comparing the area with get_region against the list above and report what was restored and what wasn't."
+                );
+            }
+            return { description: `Restore ${area.width}x${area.height} at (${area.x}, ${area.y}) to ${when}`, messages: [userMessage(lines.join("\n"))] };
+        }
+    );
+
+    server.registerPrompt(
+        "describe_canvas",
+        {
+            title: "Describe canvas",
+            description: "Describe what is currently drawn on the canvas, with the image attached",
+            argsSchema: {
+                canvasId: z.string().max(64).optional().describe("Canvas to describe (default: the default canvas)"),
+            },
+        },
+        async ({ canvasId }) => {
+            const state = await loadCanvas(canvasId);
+            const { meta } = state;
+            const scale = Math.max(1, Math.floor(512 / Math.max(meta.width, meta.height)));
+            const png = renderCanvasPng(state, scale);
+            const text = [
+                "Describe what is drawn on this pixel canvas: the recognizable pictures, text and patterns, roughly where each one is (in canvas coordinates), and which areas are still empty.",
+                "",
+                describeCanvasMeta(meta, canvasId),
+                `The attached image is scaled ${scale}x, so each canvas pixel is a ${scale}x${scale} block. Use get_region to read exact colors and who_painted or get_events to find out who drew something.`,
+            ].join("\n");
+            return {
+                description: "Describe the canvas",
+                messages: [
+                    userMessage(text),
+                    {
+                        role: "user" as const,
+                        content: { type: "image" as const, data: Buffer.from(png).toString("base64"), mimeType: "image/png" },
+                    },
+                ],
+            };
+        }
+    );
+}
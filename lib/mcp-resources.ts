@@ -0,0 +1,181 @@
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError, SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import {
+    getCanvas,
+    getCanvasEvents,
+    getCanvasEventsAfter,
+    getLatestCanvasEventId,
+    getRegion,
+    isStructuralEvent,
+    subscribeToCanvasEvents,
+    type LoggedCanvasEvent,
+} from "@/lib/canvas";
+import { renderCanvasPng } from "@/lib/png";
+
+// Read-only MCP resources for the default canvas, with resources/subscribe
+// support: subscribers get notifications/resources/updated once a write that
+// changes a resource is committed.
+
+const RECENT_EVENTS_LIMIT = 100;
+// Fallback for writes committed by other server instances
+const POLL_INTERVAL_MS = 2000;
+
+const REGION_URI = /^canvas:\/\/region\/(-?\d+)\/(-?\d+)\/(\d+)\/(\d+)$/;
+const FIXED_URIS = ["canvas://state", "canvas://image", "canvas://events/recent"];
+
+function parseRegionUri(uri: string): { x: number; y: number; width: number; height: number } | undefined {
+    const match = uri.match(REGION_URI);
+    if (!match) return undefined;
+    const [x, y, width, height] = match.slice(1).map(Number);
+    return { x, y, width, height };
+}
+
+// Whether any of the new events changes what the resource returns
+function affectsResource(uri: string, events: LoggedCanvasEvent[]): boolean {
+    if (uri === "canvas://events/recent") return events.length > 0;
+    const region = parseRegionUri(uri);
+    return events.some((event) => {
+        if (isStructuralEvent(event)) return true;
+        if (event.type !== "pixel_set") return false;
+        if (!region) return true;
+        return event.x >= region.x && event.y >= region.y && event.x < region.x + region.width && event.y < region.y + region.height;
+    });
+}
+
+function readVariable(value: string | string[] | undefined, name: string): number {
+    const n = Number(Array.isArray(value) ? value[0] : value);
+    if (!Number.isInteger(n)) throw new McpError(ErrorCode.InvalidParams, `${name} must be an integer`);
+    return n;
+}
+
+export function registerCanvasResources(server: McpServer): void {
+    server.registerResource(
+        "canvas-state",
+        "canvas://state",
+        { title: "Canvas state", description: "The canvas as JSON: { meta, pixelsBase64 }", mimeType: "application/json" },
+        async (uri) => ({
+            contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(await getCanvas()) }],
+        })
+    );
+
+    server.registerResource(
+        "canvas-image",
+        "canvas://image",
+        { title: "Canvas image", description: "The canvas as a PNG, roughly 512px on the long side", mimeType: "image/png" },
+        async (uri) => {
+            const state = await getCanvas();
+            const scale = Math.max(1, Math.floor(512 / Math.max(state.meta.width, state.meta.height)));
+            const png = renderCanvasPng(state, scale);
+            return { contents: [{ uri: uri.href, mimeType: "image/png", blob: Buffer.from(png).toString("base64") }] };
+        }
+    );
+
+    server.registerResource(
+        "canvas-events-recent",
+        "canvas://events/recent",
+        {
+            title: "Recent canvas events",
+            description: `The last ${RECENT_EVENTS_LIMIT} logged events as an event page (see get_events)`,
+            mimeType: "application/json",
+        },
+        async (uri) => {
+            const page = await getCanvasEvents({ limit: RECENT_EVENTS_LIMIT });
+            return { contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(page) }] };
+        }
+    );
+
+    server.registerResource(
+        "canvas-region",
+        new ResourceTemplate("canvas://region/{x}/{y}/{w}/{h}", { list: undefined }),
+        { title: "Canvas region", description: "A rectangle of the canvas as rows of hex colors (see get_region)", mimeType: "application/json" },
+        async (uri, variables) => {
+            const region = await getRegion({
+                x: readVariable(variables.x, "x"),
+                y: readVariable(variables.y, "y"),
+                width: readVariable(variables.w, "w"),
+                height: readVariable(variables.h, "h"),
+            });
+            return { contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(region) }] };
+        }
+    );
+
+    enableSubscriptions(server);
+}
+
+// Subscriptions live as long as the server instance, so they need a transport
+// with sessions (SSE); the stateless Streamable HTTP endpoint shares one server
+// between all callers and can't push notifications.
+function enableSubscriptions(server: McpServer): void {
+    const subscribed = new Set<string>();
+    let lastEventId = -1;
+    let stopWatching: (() => void) | undefined;
+    let checking = false;
+    let pendingCheck = false;
+
+    const notify = async () => {
+        for (; ;) {
+            const events = await getCanvasEventsAfter(lastEventId);
+            if (events.length === 0) return;
+            lastEventId = events[events.length - 1].id;
+            for (const uri of subscribed) {
+                if (affectsResource(uri, events)) await server.server.sendResourceUpdated({ uri });
+            }
+        }
+    };
+
+    const check = async () => {
+        if (checking) {
+            pendingCheck = true;
+            return;
+        }
+        checking = true;
+        try {
+            do {
+                pendingCheck = false;
+                if (!server.isConnected()) {
+                    stopWatching?.();
+                    return;
+                }
+                await notify();
+            } while (pendingCheck && stopWatching);
+        } catch {
+            // The session went away (or the store failed); later writes retry while subscribed
+            if (!server.isConnected()) stopWatching?.();
+        } finally {
+            checking = false;
+        }
+    };
+
+    const startWatching = async () => {
+        if (stopWatching) return;
+        lastEventId = await getLatestCanvasEventId();
+        const unsubscribe = subscribeToCanvasEvents(() => void check());
+        const timer = setInterval(() => void check(), POLL_INTERVAL_MS);
+        stopWatching = () => {
+            unsubscribe();
+            clearInterval(timer);
+            stopWatching = undefined;
+        };
+    };
+
+    server.server.registerCapabilities({ resources: { subscribe: true } });
+
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+        const { uri } = request.params;
+        if (!FIXED_URIS.includes(uri) && !parseRegionUri(uri)) {
+            throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+        }
+        if (!extra.sessionId) {
+            throw new McpError(ErrorCode.InvalidRequest, "Subscriptions need a session; connect over SSE (/sse) to subscribe");
+        }
+        subscribed.add(uri);
+        await startWatching();
+        return {};
+    });
+
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        subscribed.delete(request.params.uri);
+        if (subscribed.size === 0) stopWatching?.();
+        return {};
+    });
+}
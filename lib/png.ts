@@ -0,0 +1,240 @@
+import { deflateSync, inflateSync } from "zlib";
+import { decodePixelsFromBase64, type CanvasState } from "@/lib/canvas";
+import { clampScale, paletteToRgb, scaleIndexedPixels } from "@/lib/image";
+
+// Palette-indexed PNG encoder and a general PNG decoder; zlib comes from Node,
+// everything else is done here.
+
+export type IndexedImage = {
+    width: number;
+    height: number;
+    palette: string[];
+    pixels: Uint8Array; // palette indices, row-major
+};
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+    let c = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+    return (c ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+    const out = new Uint8Array(12 + data.length);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+    out.set(data, 8);
+    view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+    return out;
+}
+
+export function encodePng(image: IndexedImage): Uint8Array<ArrayBuffer> {
+    const { width, height, pixels } = image;
+    if (pixels.length !== width * height) {
+        throw new Error("Pixel count does not match the image dimensions");
+    }
+    // Stray indices beyond the palette would make the PNG invalid; give them black entries
+    let maxIndex = image.palette.length - 1;
+    for (let i = 0; i < pixels.length; i++) {
+        if (pixels[i] > maxIndex) maxIndex = pixels[i];
+    }
+    const plte = new Uint8Array((maxIndex + 1) * 3);
+    plte.set(paletteToRgb(image.palette));
+
+    const header = new Uint8Array(13);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, width);
+    headerView.setUint32(4, height);
+    header[8] = 8; // bit depth
+    header[9] = 3; // indexed color
+
+    // Each scanline is prefixed with filter type 0 (none)
+    const raw = new Uint8Array((width + 1) * height);
+    for (let y = 0; y < height; y++) {
+        raw.set(pixels.subarray(y * width, (y + 1) * width), y * (width + 1) + 1);
+    }
+
+    const parts = [
+        Uint8Array.from(PNG_SIGNATURE),
+        chunk("IHDR", header),
+        chunk("PLTE", plte),
+        chunk("IDAT", deflateSync(raw)),
+        chunk("IEND", new Uint8Array(0)),
+    ];
+    const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+}
+
+// Renders the canvas at `scale` pixels per cell (clamped to the image size limit)
+export function renderCanvasPng(state: CanvasState, scale = 1): Uint8Array<ArrayBuffer> {
+    const { width, height, palette } = state.meta;
+    const pixels = decodePixelsFromBase64(state.pixelsBase64, width * height);
+    const s = clampScale(scale, width, height);
+    return encodePng({ width: width * s, height: height * s, palette, pixels: scaleIndexedPixels(pixels, width, height, s) });
+}
+
+export type RgbaImage = {
+    width: number;
+    height: number;
+    rgba: Uint8Array; // 4 bytes per pixel, row-major
+};
+
+// Refuse to inflate anything larger than this many pixels
+const MAX_DECODE_PIXELS = 4096 * 4096;
+
+// Size limits checked against the header before any image data is inflated
+export type PngDecodeLimits = { maxWidth?: number; maxHeight?: number };
+
+function paeth(a: number, b: number, c: number): number {
+    const p = a + b - c;
+    const pa = Math.abs(p - a);
+    const pb = Math.abs(p - b);
+    const pc = Math.abs(p - c);
+    if (pa <= pb && pa <= pc) return a;
+    return pb <= pc ? b : c;
+}
+
+// Decodes any non-interlaced PNG (grayscale, RGB, indexed, with or without alpha,
+// 1-16 bits per channel) into 8-bit RGBA. Images beyond `limits` are refused
+// before inflating, and inflating stops at the size the header announces.
+export function decodePng(bytes: Uint8Array, limits: PngDecodeLimits = {}): RgbaImage {
+    if (bytes.length < 8 || PNG_SIGNATURE.some((b, i) => bytes[i] !== b)) {
+        throw new Error("Not a PNG image");
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let width = 0;
+    let height = 0;
+    let bitDepth = 0;
+    let colorType = 0;
+    let palette: Uint8Array | undefined;
+    let transparency: Uint8Array | undefined;
+    const idat: Uint8Array[] = [];
+
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+        if (data.length !== length) throw new Error("Truncated PNG chunk");
+        if (type === "IHDR") {
+            width = view.getUint32(offset + 8);
+            height = view.getUint32(offset + 12);
+            bitDepth = data[8];
+            colorType = data[9];
+            if (data[12] !== 0) throw new Error("Interlaced PNGs are not supported");
+        } else if (type === "PLTE") {
+            palette = data;
+        } else if (type === "tRNS") {
+            transparency = data;
+        } else if (type === "IDAT") {
+            idat.push(data);
+        } else if (type === "IEND") {
+            break;
+        }
+        offset += 12 + length;
+    }
+
+    const channels = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[colorType];
+    if (channels === undefined || ![1, 2, 4, 8, 16].includes(bitDepth)) {
+        throw new Error(`Unsupported PNG format (color type ${colorType}, bit depth ${bitDepth})`);
+    }
+    if (width === 0 || height === 0 || width * height > MAX_DECODE_PIXELS) {
+        throw new Error(`Unsupported PNG size ${width}x${height}`);
+    }
+    if ((limits.maxWidth !== undefined && width > limits.maxWidth) || (limits.maxHeight !== undefined && height > limits.maxHeight)) {
+        throw new Error(`PNG is ${width}x${height}, larger than the ${limits.maxWidth ?? width}x${limits.maxHeight ?? height} limit`);
+    }
+    if (colorType === 3 && !palette) throw new Error("Indexed PNG without a palette");
+
+    const bitsPerPixel = channels * bitDepth;
+    const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+    const stride = Math.ceil((width * bitsPerPixel) / 8);
+    let raw: Buffer;
+    try {
+        raw = inflateSync(Buffer.concat(idat), { maxOutputLength: (stride + 1) * height });
+    } catch (err) {
+        // Data beyond the announced size is as invalid as corrupt data
+        throw new Error(`Invalid PNG image data: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    if (raw.length < (stride + 1) * height) throw new Error("Truncated PNG image data");
+
+    // Undo the per-scanline filters
+    const rows = new Uint8Array(stride * height);
+    for (let y = 0; y < height; y++) {
+        const filter = raw[y * (stride + 1)];
+        if (filter > 4) throw new Error(`Invalid PNG filter type ${filter}`);
+        const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+        const out = rows.subarray(y * stride, (y + 1) * stride);
+        const prev = y > 0 ? rows.subarray((y - 1) * stride, y * stride) : undefined;
+        for (let i = 0; i < stride; i++) {
+            const a = i >= bytesPerPixel ? out[i - bytesPerPixel] : 0;
+            const b = prev ? prev[i] : 0;
+            const c = prev && i >= bytesPerPixel ? prev[i - bytesPerPixel] : 0;
+            const predictor = filter === 1 ? a : filter === 2 ? b : filter === 3 ? (a + b) >> 1 : filter === 4 ? paeth(a, b, c) : 0;
+            out[i] = (line[i] + predictor) & 0xff;
+        }
+    }
+
+    // Reads sample n of a row, scaled to 8 bits unless it is a palette index
+    const maxSample = (1 << bitDepth) - 1;
+    const sample = (row: number, n: number, unscaled: boolean): number => {
+        const base = row * stride;
+        if (bitDepth === 16) return rows[base + n * 2]; // high byte
+        if (bitDepth === 8) return rows[base + n];
+        const bit = n * bitDepth;
+        const value = (rows[base + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+        return unscaled ? value : Math.round((value * 255) / maxSample);
+    };
+    // tRNS for grayscale/RGB names one fully transparent color, in sample units
+    const transparentKey = (n: number) =>
+        transparency && transparency.length >= (n + 1) * 2 ? ((transparency[n * 2] << 8) | transparency[n * 2 + 1]) : -1;
+    const fullSample = (row: number, n: number): number => {
+        const base = row * stride;
+        if (bitDepth === 16) return (rows[base + n * 2] << 8) | rows[base + n * 2 + 1];
+        if (bitDepth === 8) return rows[base + n];
+        return sample(row, n, true);
+    };
+
+    const rgba = new Uint8Array(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const o = (y * width + x) * 4;
+            const n = x * channels;
+            if (colorType === 3) {
+                const index = sample(y, n, true);
+                rgba[o] = palette![index * 3] ?? 0;
+                rgba[o + 1] = palette![index * 3 + 1] ?? 0;
+                rgba[o + 2] = palette![index * 3 + 2] ?? 0;
+                rgba[o + 3] = transparency?.[index] ?? 255;
+            } else if (colorType === 0 || colorType === 4) {
+                const gray = sample(y, n, false);
+                rgba[o] = rgba[o + 1] = rgba[o + 2] = gray;
+                rgba[o + 3] = colorType === 4 ? sample(y, n + 1, false) : fullSample(y, n) === transparentKey(0) ? 0 : 255;
+            } else {
+                rgba[o] = sample(y, n, false);
+                rgba[o + 1] = sample(y, n + 1, false);
+                rgba[o + 2] = sample(y, n + 2, false);
+                const keyed = fullSample(y, n) === transparentKey(0) && fullSample(y, n + 1) === transparentKey(1) && fullSample(y, n + 2) === transparentKey(2);
+                rgba[o + 3] = colorType === 6 ? sample(y, n + 3, false) : keyed ? 0 : 255;
+            }
+        }
+    }
+    return { width, height, rgba };
+}
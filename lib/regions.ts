@@ -0,0 +1,132 @@
+import { canvasScopedKey, DEFAULT_CANVAS_ID, getCanvasStore, resolveCanvasId } from "@/lib/canvas-store";
+
+// Named rectangles reserved by a client. "locked" regions can't be painted by
+// anyone, "owner-only" ones only by their owner; "open" regions are just labels.
+export type RegionMode = "locked" | "owner-only" | "open";
+
+export const REGION_MODES: readonly RegionMode[] = ["locked", "owner-only", "open"];
+
+export type ProtectedRegion = {
+    name: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    owner: string; // clientId of the claimant, see lib/identity.ts
+    mode: RegionMode;
+    createdAtMs: number;
+};
+
+// One hash per canvas (see canvasScopedKey)
+const REGIONS_HASH_KEY = "canvas:regions:v1";
+const REGION_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Limits for regular clients; admins may claim anything
+export const MAX_REGION_AREA = 4096;
+export const MAX_REGIONS_PER_OWNER = 5;
+
+function regionsKey(canvasId?: string): string {
+    return canvasScopedKey(REGIONS_HASH_KEY, resolveCanvasId(canvasId));
+}
+
+export async function listRegions(canvasId?: string): Promise<ProtectedRegion[]> {
+    const regions = await getCanvasStore().readHash<ProtectedRegion>(regionsKey(canvasId));
+    return Object.values(regions).sort((a, b) => a.createdAtMs - b.createdAtMs);
+}
+
+function overlaps(a: Pick<ProtectedRegion, "x" | "y" | "width" | "height">, b: typeof a): boolean {
+    return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+function contains(region: ProtectedRegion, x: number, y: number): boolean {
+    return x >= region.x && y >= region.y && x < region.x + region.width && y < region.y + region.height;
+}
+
+// The region that keeps `clientId` from painting (x, y), if any
+export function blockingRegion(regions: ProtectedRegion[], x: number, y: number, clientId: string): ProtectedRegion | undefined {
+    return regions.find(
+        (r) => contains(r, x, y) && (r.mode === "locked" || (r.mode === "owner-only" && r.owner !== clientId))
+    );
+}
+
+export function describeBlock(region: ProtectedRegion): string {
+    return region.mode === "locked"
+        ? `region "${region.name}" is locked`
+        : `region "${region.name}" is reserved for ${region.owner}`;
+}
+
+// Claims a new region or updates one the caller already owns. Regions of other
+// owners that restrict painting may not be overlapped unless `admin` is set.
+export async function claimRegion(params: {
+    name: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    mode?: RegionMode;
+    owner: string;
+    admin?: boolean;
+    canvasId?: string;
+}): Promise<ProtectedRegion> {
+    const { name, x, y, width, height, owner, admin = false } = params;
+    const canvasId = resolveCanvasId(params.canvasId);
+    const mode = params.mode ?? "owner-only";
+    if (!REGION_NAME_PATTERN.test(name)) {
+        throw new Error("Region names are 1-64 letters, digits, underscores or dashes");
+    }
+    if (![x, y, width, height].every(Number.isInteger) || x < 0 || y < 0 || width <= 0 || height <= 0) {
+        throw new Error("Region needs integer x, y >= 0 and a positive width and height");
+    }
+    if (!REGION_MODES.includes(mode)) {
+        throw new Error(`Unknown region mode "${mode}" (expected ${REGION_MODES.join(", ")})`);
+    }
+
+    // The default canvas is created lazily; any other one must exist already
+    if (canvasId !== DEFAULT_CANVAS_ID && !(await getCanvasStore().readState(canvasId))) {
+        throw new Error(`Canvas "${canvasId}" does not exist`);
+    }
+    const regions = await listRegions(canvasId);
+    const existing = regions.find((r) => r.name === name);
+    if (existing && existing.owner !== owner && !admin) {
+        throw new Error(`Region "${name}" is already claimed by ${existing.owner}`);
+    }
+    const candidate = { x, y, width, height };
+    if (!admin) {
+        if (width * height > MAX_REGION_AREA) {
+            throw new Error(`Regions are limited to ${MAX_REGION_AREA} pixels`);
+        }
+        const owned = regions.filter((r) => r.owner === owner && r.name !== name);
+        if (owned.length >= MAX_REGIONS_PER_OWNER) {
+            throw new Error(`Each client may hold at most ${MAX_REGIONS_PER_OWNER} regions`);
+        }
+        const conflict = regions.find((r) => r.name !== name && r.owner !== owner && r.mode !== "open" && overlaps(r, candidate));
+        if (conflict) {
+            throw new Error(`Overlaps region "${conflict.name}" of ${conflict.owner}`);
+        }
+    }
+
+    const region: ProtectedRegion = {
+        name,
+        ...candidate,
+        owner: existing && admin ? existing.owner : owner,
+        mode,
+        createdAtMs: existing?.createdAtMs ?? Date.now(),
+    };
+    await getCanvasStore().writeHashField(regionsKey(canvasId), name, region);
+    return region;
+}
+
+// Only the owner (or an admin) may release a region
+export async function releaseRegion(params: { name: string; owner: string; admin?: boolean; canvasId?: string }): Promise<ProtectedRegion> {
+    const store = getCanvasStore();
+    const key = regionsKey(params.canvasId);
+    const region = await store.readHashField<ProtectedRegion>(key, params.name);
+    if (!region) {
+        throw new Error(`No region named "${params.name}"`);
+    }
+    if (region.owner !== params.owner && !params.admin) {
+        throw new Error(`Region "${params.name}" belongs to ${region.owner}`);
+    }
+    await store.deleteHashField(key, params.name);
+    return region;
+}
@@ -0,0 +1,160 @@
+import { getCanvas, setPixels, MAX_SHAPE_PIXELS, type PixelSource, type PixelUpdate, type PixelWriteResult } from "@/lib/canvas";
+import { createPaletteMatcher, parseColor } from "@/lib/color";
+import { decodePng, type RgbaImage } from "@/lib/png";
+
+// Either a base64-encoded PNG or rows of CSS colors, where null, "" and
+// "transparent" leave the canvas untouched
+export type StampImage = { pngBase64: string } | { grid: (string | null)[][] };
+
+export type StampResult = PixelWriteResult & {
+    width: number; // size of the stamped image after scaling
+    height: number;
+    transparent: number; // pixels skipped because they are (mostly) transparent
+    clipped: number; // pixels skipped because they fall outside the canvas
+};
+
+// Largest source image accepted, before scaling
+const MAX_STAMP_SOURCE_SIDE = 1024;
+
+function gridToRgba(grid: (string | null)[][]): RgbaImage {
+    const height = grid.length;
+    const width = Math.max(0, ...grid.map((row) => row.length));
+    if (width === 0 || height === 0) {
+        throw new Error("Grid must have at least one row and column");
+    }
+    const rgba = new Uint8Array(width * height * 4);
+    grid.forEach((row, y) => {
+        row.forEach((value, x) => {
+            if (value === null || value.trim() === "") return;
+            const color = parseColor(value);
+            if (!color) throw new Error(`Unrecognized color "${value}" at (${x}, ${y})`);
+            rgba.set([color.r, color.g, color.b, Math.round(color.a * 255)], (y * width + x) * 4);
+        });
+    });
+    return { width, height, rgba };
+}
+
+function toRgba(image: StampImage): RgbaImage {
+    const decoded = "grid" in image
+        ? gridToRgba(image.grid)
+        : decodePng(Buffer.from(image.pngBase64, "base64"), { maxWidth: MAX_STAMP_SOURCE_SIDE, maxHeight: MAX_STAMP_SOURCE_SIDE });
+    if (decoded.width > MAX_STAMP_SOURCE_SIDE || decoded.height > MAX_STAMP_SOURCE_SIDE) {
+        throw new Error(`Images are limited to ${MAX_STAMP_SOURCE_SIDE}x${MAX_STAMP_SOURCE_SIDE} pixels`);
+    }
+    return decoded;
+}
+
+export type QuantizedImage = {
+    width: number; // size after scaling
+    height: number;
+    indices: Int16Array; // palette index per cell, row-major; -1 where (mostly) transparent
+};
+
+// Scales an image by nearest-neighbor sampling and maps it onto `palette`
+// (optionally with Floyd–Steinberg dithering)
+export function quantizeImage(image: StampImage, palette: string[], options: { scale?: number; dither?: boolean } = {}): QuantizedImage {
+    const scale = options.scale ?? 1;
+    if (!Number.isFinite(scale) || scale <= 0) {
+        throw new Error("Scale must be a positive number");
+    }
+
+    const src = toRgba(image);
+    const width = Math.max(1, Math.round(src.width * scale));
+    const height = Math.max(1, Math.round(src.height * scale));
+    if (width * height > MAX_STAMP_SOURCE_SIDE * MAX_STAMP_SOURCE_SIDE) {
+        throw new Error(`Scaled image is too large (${width}x${height})`);
+    }
+
+    const match = createPaletteMatcher(palette);
+    const paletteRgb = palette.map((c) => parseColor(c) ?? { r: 0, g: 0, b: 0, a: 1 });
+
+    // Accumulated dithering error per output pixel and channel
+    const error = options.dither ? new Float32Array(width * height * 3) : undefined;
+    const spread = (px: number, py: number, weight: number, dr: number, dg: number, db: number) => {
+        if (!error || px < 0 || px >= width || py >= height) return;
+        const o = (py * width + px) * 3;
+        error[o] += dr * weight;
+        error[o + 1] += dg * weight;
+        error[o + 2] += db * weight;
+    };
+
+    const indices = new Int16Array(width * height).fill(-1);
+    for (let ty = 0; ty < height; ty++) {
+        const sy = Math.min(src.height - 1, Math.floor(ty / scale));
+        for (let tx = 0; tx < width; tx++) {
+            const sx = Math.min(src.width - 1, Math.floor(tx / scale));
+            const s = (sy * src.width + sx) * 4;
+            if (src.rgba[s + 3] < 128) continue;
+            const e = (ty * width + tx) * 3;
+            const r = src.rgba[s] + (error?.[e] ?? 0);
+            const g = src.rgba[s + 1] + (error?.[e + 1] ?? 0);
+            const b = src.rgba[s + 2] + (error?.[e + 2] ?? 0);
+            const index = match({ r, g, b });
+            if (index === -1) throw new Error("The canvas palette has no usable colors");
+            if (error) {
+                const chosen = paletteRgb[index];
+                const dr = r - chosen.r;
+                const dg = g - chosen.g;
+                const db = b - chosen.b;
+                spread(tx + 1, ty, 7 / 16, dr, dg, db);
+                spread(tx - 1, ty + 1, 3 / 16, dr, dg, db);
+                spread(tx, ty + 1, 5 / 16, dr, dg, db);
+                spread(tx + 1, ty + 1, 1 / 16, dr, dg, db);
+            }
+            indices[ty * width + tx] = index;
+        }
+    }
+    return { width, height, indices };
+}
+
+// Places an image with its top-left corner at (x, y), quantized to the current
+// palette by quantizeImage. Everything lands in one setPixels batch, so the
+// per-call and cooldown limits apply to the pixels actually painted.
+export async function stampImage(params: {
+    image: StampImage;
+    x: number;
+    y: number;
+    scale?: number;
+    dither?: boolean;
+    source?: PixelSource;
+    clientId?: string;
+    canvasId?: string;
+}): Promise<StampResult> {
+    const { x: offsetX, y: offsetY, scale, dither, source, clientId, canvasId } = params;
+    if (!Number.isInteger(offsetX) || !Number.isInteger(offsetY)) {
+        throw new Error("Offset must be integers");
+    }
+
+    const { meta } = await getCanvas(canvasId);
+    const palette = meta.palette;
+    const { width, height, indices } = quantizeImage(params.image, palette, { scale, dither });
+
+    const updates: PixelUpdate[] = [];
+    let transparent = 0;
+    let clipped = 0;
+    for (let ty = 0; ty < height; ty++) {
+        for (let tx = 0; tx < width; tx++) {
+            const index = indices[ty * width + tx];
+            if (index === -1) {
+                transparent++;
+                continue;
+            }
+            const x = offsetX + tx;
+            const y = offsetY + ty;
+            if (x < 0 || y < 0 || x >= meta.width || y >= meta.height) {
+                clipped++;
+                continue;
+            }
+            updates.push({ x, y, color: palette[index] });
+        }
+    }
+
+    if (updates.length === 0) {
+        throw new Error("Nothing to stamp: the image is fully transparent or outside the canvas");
+    }
+    if (updates.length > MAX_SHAPE_PIXELS) {
+        throw new Error(`Image covers ${updates.length} pixels (max ${MAX_SHAPE_PIXELS})`);
+    }
+    const result = await setPixels({ updates, source, clientId, canvasId });
+    return { ...result, width, height, transparent, clipped };
+}
@@ -0,0 +1,286 @@
+import { decodePixelsFromBase64, getCanvas, indexFor } from "@/lib/canvas";
+import { canvasScopedKey, DEFAULT_CANVAS_ID, getCanvasStore, resolveCanvasId } from "@/lib/canvas-store";
+import { quantizeImage, type StampImage } from "@/lib/stamp";
+
+// Target designs pinned at an offset on a canvas, for r/place-style coordination:
+// agents compare them with the live canvas (templateDiff, templateProgress) and
+// repaint what differs. Templates are quantized to the canvas palette on upload.
+export type CanvasTemplate = {
+    name: string;
+    x: number; // offset of the top-left corner on the canvas
+    y: number;
+    width: number;
+    height: number;
+    colors: string[]; // colors the template uses
+    pixelsBase64: string; // one byte per cell, row-major: 0 = transparent, n = colors[n - 1]
+    owner: string; // clientId of the uploader, see lib/identity.ts
+    createdAtMs: number;
+    updatedAtMs: number;
+};
+
+export type TemplateSummary = Omit<CanvasTemplate, "pixelsBase64">;
+
+export type TemplatePixel = {
+    x: number;
+    y: number;
+    color: string; // the template's color
+    currentColor: string; // the color on the canvas now
+    priority: number; // correct neighbors (0-8) around the pixel, higher first
+};
+
+export type TemplateDiff = {
+    template: TemplateSummary;
+    total: number; // non-transparent template pixels on the canvas
+    correct: number;
+    remaining: number;
+    pixels: TemplatePixel[]; // the first `limit` differing pixels, highest priority first
+    truncated: boolean;
+};
+
+export type TemplateProgress = {
+    template: TemplateSummary;
+    total: number;
+    correct: number;
+    remaining: number;
+    percent: number; // 0-100, one decimal
+    offCanvas: number; // template pixels outside the canvas, not counted
+};
+
+// One hash per canvas (see canvasScopedKey)
+const TEMPLATES_HASH_KEY = "canvas:templates:v1";
+const TEMPLATE_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Limits for regular clients; admins may upload anything up to the image limits
+export const MAX_TEMPLATE_AREA = 256 * 256;
+export const MAX_TEMPLATES_PER_OWNER = 10;
+
+export const DEFAULT_TEMPLATE_DIFF_LIMIT = 100;
+export const MAX_TEMPLATE_DIFF_LIMIT = 4096;
+
+function templatesKey(canvasId?: string): string {
+    return canvasScopedKey(TEMPLATES_HASH_KEY, resolveCanvasId(canvasId));
+}
+
+export function summarizeTemplate(template: CanvasTemplate): TemplateSummary {
+    const { name, x, y, width, height, colors, owner, createdAtMs, updatedAtMs } = template;
+    return { name, x, y, width, height, colors, owner, createdAtMs, updatedAtMs };
+}
+
+export async function listTemplates(canvasId?: string): Promise<CanvasTemplate[]> {
+    const templates = await getCanvasStore().readHash<CanvasTemplate>(templatesKey(canvasId));
+    return Object.values(templates).sort((a, b) => a.createdAtMs - b.createdAtMs);
+}
+
+export async function getTemplate(name: string, canvasId?: string): Promise<CanvasTemplate> {
+    const template = await getCanvasStore().readHashField<CanvasTemplate>(templatesKey(canvasId), name);
+    if (!template) {
+        throw new Error(`No template named "${name}"`);
+    }
+    return template;
+}
+
+// Creates a template or replaces one the caller already owns. The image is
+// scaled and snapped to the canvas palette like stamp_image; transparent cells
+// are left out of the comparisons.
+export async function uploadTemplate(params: {
+    name: string;
+    image: StampImage;
+    x: number;
+    y: number;
+    scale?: number;
+    dither?: boolean;
+    owner: string;
+    admin?: boolean;
+    canvasId?: string;
+}): Promise<CanvasTemplate> {
+    const { name, x, y, owner, admin = false } = params;
+    const canvasId = resolveCanvasId(params.canvasId);
+    if (!TEMPLATE_NAME_PATTERN.test(name)) {
+        throw new Error("Template names are 1-64 letters, digits, underscores or dashes");
+    }
+    if (!Number.isInteger(x) || !Number.isInteger(y) || x < 0 || y < 0) {
+        throw new Error("Template offset needs integer x, y >= 0");
+    }
+
+    // The default canvas is created lazily; any other one must exist already
+    if (canvasId !== DEFAULT_CANVAS_ID && !(await getCanvasStore().readState(canvasId))) {
+        throw new Error(`Canvas "${canvasId}" does not exist`);
+    }
+    const templates = await listTemplates(canvasId);
+    const existing = templates.find((t) => t.name === name);
+    if (existing && existing.owner !== owner && !admin) {
+        throw new Error(`Template "${name}" belongs to ${existing.owner}`);
+    }
+    if (!admin && !existing && templates.filter((t) => t.owner === owner).length >= MAX_TEMPLATES_PER_OWNER) {
+        throw new Error(`Each client may hold at most ${MAX_TEMPLATES_PER_OWNER} templates`);
+    }
+
+    const { meta } = await getCanvas(canvasId);
+    const { width, height, indices } = quantizeImage(params.image, meta.palette, { scale: params.scale, dither: params.dither });
+    if (!admin && width * height > MAX_TEMPLATE_AREA) {
+        throw new Error(`Templates are limited to ${MAX_TEMPLATE_AREA} pixels (got ${width}x${height})`);
+    }
+    if (x >= meta.width || y >= meta.height) {
+        throw new Error(`Template offset lies outside the ${meta.width}x${meta.height} canvas`);
+    }
+
+    // Re-index to the colors actually used, so the template survives palette changes
+    const colors: string[] = [];
+    const colorSlots = new Map<number, number>();
+    const cells = new Uint8Array(width * height);
+    let opaque = 0;
+    for (let i = 0; i < indices.length; i++) {
+        if (indices[i] === -1) continue;
+        let slot = colorSlots.get(indices[i]);
+        if (slot === undefined) {
+            if (colors.length === 255) throw new Error("Templates may use at most 255 colors");
+            colors.push(meta.palette[indices[i]]);
+            slot = colors.length;
+            colorSlots.set(indices[i], slot);
+        }
+        cells[i] = slot;
+        opaque++;
+    }
+    if (opaque === 0) {
+        throw new Error("The template is fully transparent");
+    }
+
+    const now = Date.now();
+    const template: CanvasTemplate = {
+        name,
+        x,
+        y,
+        width,
+        height,
+        colors,
+        pixelsBase64: Buffer.from(cells).toString("base64"),
+        owner: existing && admin ? existing.owner : owner,
+        createdAtMs: existing?.createdAtMs ?? now,
+        updatedAtMs: now,
+    };
+    await getCanvasStore().writeHashField(templatesKey(canvasId), name, template);
+    return template;
+}
+
+// Only the owner (or an admin) may delete a template
+export async function deleteTemplate(params: { name: string; owner: string; admin?: boolean; canvasId?: string }): Promise<CanvasTemplate> {
+    const template = await getTemplate(params.name, params.canvasId);
+    if (template.owner !== params.owner && !params.admin) {
+        throw new Error(`Template "${params.name}" belongs to ${template.owner}`);
+    }
+    await getCanvasStore().deleteHashField(templatesKey(params.canvasId), params.name);
+    return template;
+}
+
+// Compares a template with the live canvas cell by cell. Wrong pixels are
+// ranked by how many of their neighbors already match, so holes punched into
+// finished art come before the unfinished parts.
+function compareTemplate(template: CanvasTemplate, canvas: { width: number; height: number; palette: string[]; pixels: Uint8Array }) {
+    const { width, height } = template;
+    const cells = decodePixelsFromBase64(template.pixelsBase64, width * height);
+    const targets = template.colors.map((c) => c.toUpperCase());
+    const palette = canvas.palette.map((c) => c.toUpperCase());
+
+    // 1 = correct, 0 = wrong, -1 = transparent or off the canvas
+    const state = new Int8Array(width * height).fill(-1);
+    let offCanvas = 0;
+    for (let ty = 0; ty < height; ty++) {
+        for (let tx = 0; tx < width; tx++) {
+            const slot = cells[ty * width + tx];
+            if (slot === 0) continue;
+            const x = template.x + tx;
+            const y = template.y + ty;
+            if (x >= canvas.width || y >= canvas.height) {
+                offCanvas++;
+                continue;
+            }
+            state[ty * width + tx] = palette[canvas.pixels[indexFor(x, y, canvas.width)]] === targets[slot - 1] ? 1 : 0;
+        }
+    }
+
+    const wrong: TemplatePixel[] = [];
+    let correct = 0;
+    for (let ty = 0; ty < height; ty++) {
+        for (let tx = 0; tx < width; tx++) {
+            const s = state[ty * width + tx];
+            if (s === 1) correct++;
+            if (s !== 0) continue;
+            let priority = 0;
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    const nx = tx + dx;
+                    const ny = ty + dy;
+                    if ((dx || dy) && nx >= 0 && ny >= 0 && nx < width && ny < height && state[ny * width + nx] === 1) priority++;
+                }
+            }
+            const x = template.x + tx;
+            const y = template.y + ty;
+            wrong.push({
+                x,
+                y,
+                color: template.colors[cells[ty * width + tx] - 1],
+                currentColor: canvas.palette[canvas.pixels[indexFor(x, y, canvas.width)]],
+                priority,
+            });
+        }
+    }
+    // Stable sort keeps row-major order within a priority
+    wrong.sort((a, b) => b.priority - a.priority);
+    return { correct, wrong, offCanvas };
+}
+
+type LiveCanvas = Parameters<typeof compareTemplate>[1];
+
+async function loadLiveCanvas(canvasId?: string): Promise<LiveCanvas> {
+    const { meta, pixelsBase64 } = await getCanvas(canvasId);
+    return { ...meta, pixels: decodePixelsFromBase64(pixelsBase64, meta.width * meta.height) };
+}
+
+async function loadComparison(name: string, canvasId?: string) {
+    const template = await getTemplate(name, canvasId);
+    return { template, ...compareTemplate(template, await loadLiveCanvas(canvasId)) };
+}
+
+function toProgress(template: CanvasTemplate, canvas: LiveCanvas): TemplateProgress {
+    const { correct, wrong, offCanvas } = compareTemplate(template, canvas);
+    const total = correct + wrong.length;
+    return {
+        template: summarizeTemplate(template),
+        total,
+        correct,
+        remaining: wrong.length,
+        percent: total === 0 ? 100 : Math.floor((correct / total) * 1000) / 10,
+        offCanvas,
+    };
+}
+
+// The pixels that differ from the template, highest priority first. Each entry
+// can be passed to set_pixels as is.
+export async function templateDiff(params: { name: string; limit?: number; canvasId?: string }): Promise<TemplateDiff> {
+    const limit = params.limit ?? DEFAULT_TEMPLATE_DIFF_LIMIT;
+    if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_TEMPLATE_DIFF_LIMIT) {
+        throw new Error(`limit must be an integer from 1 to ${MAX_TEMPLATE_DIFF_LIMIT}`);
+    }
+    const { template, correct, wrong } = await loadComparison(params.name, params.canvasId);
+    return {
+        template: summarizeTemplate(template),
+        total: correct + wrong.length,
+        correct,
+        remaining: wrong.length,
+        pixels: wrong.slice(0, limit),
+        truncated: wrong.length > limit,
+    };
+}
+
+export async function templateProgress(params: { name: string; canvasId?: string }): Promise<TemplateProgress> {
+    const template = await getTemplate(params.name, params.canvasId);
+    return toProgress(template, await loadLiveCanvas(params.canvasId));
+}
+
+// Progress of every template on the canvas, oldest template first
+export async function listTemplateProgress(canvasId?: string): Promise<TemplateProgress[]> {
+    const templates = await listTemplates(canvasId);
+    if (templates.length === 0) return [];
+    const canvas = await loadLiveCanvas(canvasId);
+    return templates.map((template) => toProgress(template, canvas));
+}
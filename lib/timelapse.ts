@@ -0,0 +1,73 @@
+import { getCanvas, getCanvasEventsAfter, getCanvasFrames, type CanvasFrame } from "@/lib/canvas";
+import { encodeGif, type GifFrame } from "@/lib/gif";
+import { clampScale, scaleIndexedPixels } from "@/lib/image";
+
+export type TimelapseOptions = {
+    fromMs?: number; // defaults to the first logged event
+    toMs?: number; // defaults to now
+    frames?: number;
+    fps?: number;
+    scale?: number;
+    canvasId?: string;
+};
+
+export const DEFAULT_TIMELAPSE_FRAMES = 60;
+export const MAX_TIMELAPSE_FRAMES = 300;
+// GIF delays are in centiseconds and most viewers clamp anything below 2
+export const MAX_TIMELAPSE_FPS = 50;
+// Upper bound on the scaled frame data held in memory while encoding
+const MAX_TIMELAPSE_BYTES = 64 * 1024 * 1024;
+
+// Replays the event log into evenly spaced frames between `fromMs` and `toMs` and
+// encodes them as a looping GIF. Consecutive identical frames are merged.
+export async function renderTimelapseGif(options: TimelapseOptions = {}): Promise<Uint8Array<ArrayBuffer>> {
+    const fps = Math.max(1, Math.min(MAX_TIMELAPSE_FPS, options.fps ?? 10));
+    const toMs = options.toMs ?? Date.now();
+    const fromMs = options.fromMs ?? (await getCanvasEventsAfter(-1, { limit: 1, canvasId: options.canvasId }))[0]?.timestampMs ?? toMs;
+    if (toMs < fromMs) {
+        throw new Error("`to` must not be before `from`");
+    }
+
+    // Size the frame budget on the current canvas; earlier epochs may differ but rarely by much
+    const { meta } = await getCanvas(options.canvasId);
+    const scale = clampScale(options.scale ?? 1, meta.width, meta.height);
+    const frameBytes = meta.width * meta.height * scale * scale;
+    const requested = Math.max(1, Math.min(MAX_TIMELAPSE_FRAMES, Math.floor(options.frames ?? DEFAULT_TIMELAPSE_FRAMES)));
+    const count = Math.max(1, Math.min(requested, Math.floor(MAX_TIMELAPSE_BYTES / frameBytes)));
+
+    const timestamps = Array.from({ length: count }, (_, i) =>
+        count === 1 ? toMs : Math.round(fromMs + ((toMs - fromMs) * i) / (count - 1))
+    );
+    const canvasFrames = await getCanvasFrames(timestamps, options.canvasId);
+    const delayMs = 1000 / fps;
+
+    const gifFrames: GifFrame[] = [];
+    let previous: CanvasFrame | undefined;
+    for (const frame of canvasFrames) {
+        const last = gifFrames[gifFrames.length - 1];
+        if (last && previous && sameFrame(previous, frame)) {
+            last.delayMs += delayMs;
+            continue;
+        }
+        const { width, height, palette } = frame.meta;
+        const frameScale = clampScale(scale, width, height);
+        gifFrames.push({
+            width: width * frameScale,
+            height: height * frameScale,
+            palette,
+            pixels: scaleIndexedPixels(frame.pixels, width, height, frameScale),
+            delayMs,
+        });
+        previous = frame;
+    }
+    return encodeGif(gifFrames);
+}
+
+function sameFrame(a: CanvasFrame, b: CanvasFrame): boolean {
+    if (a.meta.width !== b.meta.width || a.meta.height !== b.meta.height) return false;
+    if (a.meta.palette.length !== b.meta.palette.length || a.meta.palette.some((c, i) => c !== b.meta.palette[i])) return false;
+    for (let i = 0; i < a.pixels.length; i++) {
+        if (a.pixels[i] !== b.pixels[i]) return false;
+    }
+    return true;
+}
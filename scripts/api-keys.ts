@@ -0,0 +1,35 @@
+import "dotenv/config";
+import { API_KEY_SCOPES, issueApiKey, listApiKeys, revokeApiKey, type ApiKeyScope } from "@/lib/auth";
+
+const usage = `Usage:
+  bun scripts/api-keys.ts issue <label> [read|paint|admin]   (default scope: paint)
+  bun scripts/api-keys.ts revoke <id>
+  bun scripts/api-keys.ts list`;
+
+const [command, ...args] = process.argv.slice(2);
+
+if (command === "issue") {
+    const [label, scopeArg = "paint"] = args;
+    if (!label || !API_KEY_SCOPES.includes(scopeArg as ApiKeyScope)) {
+        console.error(usage);
+        process.exit(1);
+    }
+    const { key, record } = await issueApiKey({ label, scope: scopeArg as ApiKeyScope });
+    console.log(`Issued ${record.scope} key ${record.id} (${record.label}). It is shown only once:`);
+    console.log(key);
+} else if (command === "revoke") {
+    const [id] = args;
+    if (!id) {
+        console.error(usage);
+        process.exit(1);
+    }
+    const revoked = await revokeApiKey(id);
+    console.log(revoked ? `Revoked key ${id}` : `No key with id ${id}`);
+} else if (command === "list") {
+    for (const record of await listApiKeys()) {
+        console.log(`${record.id}\t${record.scope}\t${new Date(record.createdAtMs).toISOString()}\t${record.label}`);
+    }
+} else {
+    console.error(usage);
+    process.exit(1);
+}
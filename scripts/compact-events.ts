@@ -0,0 +1,30 @@
+import "dotenv/config";
+import { compactEventLog, getRetentionPolicy, listCanvases } from "@/lib/canvas";
+
+// Usage: bun scripts/compact-events.ts [canvasId] [--max-events=N] [--max-age-ms=N]
+// Applies the retention policy (from the environment unless overridden) to one
+// canvas, or to every canvas when no id is given.
+const options = new Map<string, string>();
+const positional: string[] = [];
+for (const arg of process.argv.slice(2)) {
+    const match = arg.match(/^--([^=]+)=(.*)$/);
+    if (match) options.set(match[1], match[2]);
+    else positional.push(arg);
+}
+
+const policy = getRetentionPolicy();
+if (options.has("max-events")) policy.maxEvents = Number(options.get("max-events"));
+if (options.has("max-age-ms")) policy.maxAgeMs = Number(options.get("max-age-ms"));
+if (![policy.maxEvents, policy.maxAgeMs].every((n) => Number.isInteger(n) && n >= 0)) {
+    throw new Error("--max-events and --max-age-ms must be non-negative integers");
+}
+if (policy.maxEvents === 0 && policy.maxAgeMs === 0) {
+    console.log("No retention policy set (CANVAS_EVENT_RETENTION / CANVAS_EVENT_RETENTION_MS); nothing to do");
+    process.exit(0);
+}
+
+const canvasIds = positional.length > 0 ? positional : (await listCanvases()).map((c) => c.id);
+for (const canvasId of canvasIds) {
+    const result = await compactEventLog({ canvasId, policy });
+    console.log(`${canvasId}: removed ${result.removedEvents} events and ${result.removedSnapshots} snapshots, log now starts at ${result.firstEventId}`);
+}
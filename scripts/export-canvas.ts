@@ -0,0 +1,35 @@
+import "dotenv/config";
+import { writeFile } from "fs/promises";
+import { exportCanvasArchive, serializeArchive } from "@/lib/archive";
+import { getCanvas } from "@/lib/canvas";
+import { renderCanvasPng } from "@/lib/png";
+
+// Usage: bun scripts/export-canvas.ts [out.json|out.ndjson|out.png] [--canvas=<id>] [--no-events] [--scale=1]
+// Writes the canvas state and its retained event log as a JSON or NDJSON archive
+// (picked by the file extension, default canvas-<id>.json), or just the image as a PNG.
+const options = new Map<string, string>();
+const positional: string[] = [];
+for (const arg of process.argv.slice(2)) {
+    const match = arg.match(/^--([^=]+)(?:=(.*))?$/);
+    if (match) options.set(match[1], match[2] ?? "true");
+    else positional.push(arg);
+}
+
+const canvasId = options.get("canvas");
+const out = positional[0] ?? `canvas-${canvasId ?? "default"}.json`;
+
+if (out.endsWith(".png")) {
+    const scale = Number(options.get("scale") ?? 1);
+    if (!Number.isInteger(scale) || scale < 1) throw new Error("--scale must be a positive integer");
+    const state = await getCanvas(canvasId);
+    const png = renderCanvasPng(state, scale);
+    await writeFile(out, png);
+    console.log(`Wrote ${out} (${state.meta.width}x${state.meta.height} at scale ${scale}, ${png.length} bytes)`);
+} else {
+    const archive = await exportCanvasArchive({ canvasId, withEvents: !options.has("no-events") });
+    const encoding = out.endsWith(".ndjson") || out.endsWith(".jsonl") ? "ndjson" : "json";
+    const text = serializeArchive(archive, encoding);
+    await writeFile(out, text);
+    const { width, height } = archive.state.meta;
+    console.log(`Wrote ${out}: ${archive.canvasId} ${width}x${height} with ${archive.eventCount} events (${text.length} bytes)`);
+}
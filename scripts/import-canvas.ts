@@ -0,0 +1,49 @@
+import "dotenv/config";
+import { readFile } from "fs/promises";
+import { archiveHistory, checkArchiveState, parseArchive, stateFromPng } from "@/lib/archive";
+import { canvasExists, DEFAULT_PALETTE, getCanvas, restoreCanvas } from "@/lib/canvas";
+
+// Usage: bun scripts/import-canvas.ts <archive.json|archive.ndjson|image.png> [--canvas=<id>] [--no-events] [--force] [--dither]
+// Restores a canvas from an archive written by export-canvas.ts (into the canvas it
+// came from unless --canvas is given), including its event log when the target
+// log is empty; the events are skipped with a warning otherwise. A PNG only seeds the pixels, snapped to the target canvas palette.
+// Archives whose pixel data doesn't match width*height, and PNGs of another size
+// than the canvas, are refused unless --force is given.
+const options = new Map<string, string>();
+const positional: string[] = [];
+for (const arg of process.argv.slice(2)) {
+    const match = arg.match(/^--([^=]+)(?:=(.*))?$/);
+    if (match) options.set(match[1], match[2] ?? "true");
+    else positional.push(arg);
+}
+
+const file = positional[0];
+if (!file) {
+    console.error("Usage: bun scripts/import-canvas.ts <archive.json|archive.ndjson|image.png> [--canvas=<id>] [--no-events] [--force] [--dither]");
+    process.exit(1);
+}
+const force = options.has("force");
+const data = await readFile(file);
+
+// PNG files start with \x89PNG
+if (data.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]))) {
+    const canvasId = options.get("canvas");
+    const meta = (await canvasExists(canvasId))
+        ? (await getCanvas(canvasId)).meta
+        : { width: 0, height: 0, palette: DEFAULT_PALETTE };
+    // New canvases take the PNG's size
+    const state = stateFromPng(data, meta, { dither: options.has("dither"), force: force || meta.width === 0 });
+    await restoreCanvas({ state, canvasId, source: "script" });
+    console.log(`Seeded ${canvasId ?? "default"} from ${file} (${state.meta.width}x${state.meta.height}, ${state.meta.palette.length}-color palette)`);
+} else {
+    const archive = parseArchive(data.toString("utf8"));
+    const canvasId = options.get("canvas") ?? archive.canvasId;
+    const { state, mismatch } = checkArchiveState(archive.state, force);
+    if (mismatch) console.warn(`Warning: ${mismatch}; fixed up because of --force`);
+    const history = options.has("no-events") ? [] : archiveHistory(archive);
+    const { importedEvents, skippedEvents } = await restoreCanvas({ state, history, canvasId, source: "script" });
+    if (skippedEvents > 0) {
+        console.warn(`Warning: ${canvasId} already has logged events, so the archive's ${skippedEvents} events were not imported`);
+    }
+    console.log(`Restored ${canvasId} (${state.meta.width}x${state.meta.height}) from ${file} with ${importedEvents} events of history`);
+}
@@ -1,5 +1,10 @@
+import "dotenv/config";
 import { DEFAULT_PALETTE, resetCanvas } from "@/lib/canvas";
 
-await resetCanvas({width: 100, height: 100, palette: DEFAULT_PALETTE});
+// Usage: bun scripts/reset-canvas.ts [width] [height]  (defaults to 100x100)
+const width = Number(process.argv[2] ?? 100);
+const height = Number(process.argv[3] ?? width);
 
-console.log("Canvas reset");
\ No newline at end of file
+const state = await resetCanvas({ width, height, palette: DEFAULT_PALETTE, source: "script" });
+
+console.log(`Canvas reset to ${state.meta.width}x${state.meta.height}`);
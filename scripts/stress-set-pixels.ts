@@ -0,0 +1,86 @@
+import "dotenv/config";
+import { createMemoryStore, createUpstashStore, DEFAULT_CANVAS_ID, getCanvasStore, setCanvasStore } from "@/lib/canvas-store";
+import { decodePixelsFromBase64, getCanvas, getCanvasEvents, indexFor, MAX_EVENT_PAGE_SIZE, resetCanvas, setPixels, type CanvasEvent, type PixelUpdate } from "@/lib/canvas";
+
+// Usage: bun scripts/stress-set-pixels.ts [calls] [--upstash]
+// Fires many concurrent setPixels calls and verifies that no pixel, palette color
+// or event was lost, then commits one batch of events larger than a single Redis
+// command can take. Runs against an isolated in-memory store, or with --upstash
+// against the Upstash database from the environment, which exercises the Lua
+// commit script; that resets its default canvas, so only point it at a scratch
+// database. Exits non-zero on loss.
+const flags = process.argv.slice(2).filter((arg) => arg.startsWith("--"));
+const positional = process.argv.slice(2).filter((arg) => !arg.startsWith("--"));
+if (flags.includes("--upstash")) {
+    if (!process.env.UPSTASH_REDIS_REST_URL) {
+        throw new Error("--upstash needs UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN");
+    }
+    setCanvasStore(createUpstashStore());
+} else {
+    setCanvasStore(createMemoryStore());
+}
+
+const arg = Number(positional[0]);
+const calls = Number.isFinite(arg) && arg > 0 ? arg : 40;
+const pixelsPerCall = 8;
+const width = 64;
+const height = Math.ceil((calls * pixelsPerCall) / width);
+
+await resetCanvas({ width, height });
+const store = getCanvasStore();
+const firstEventId = await store.countEvents(DEFAULT_CANVAS_ID);
+
+// Every call paints its own pixels with its own new color, so each one also grows the palette
+const batches: PixelUpdate[][] = [];
+for (let call = 0; call < calls; call++) {
+    const color = `#${(0x100000 + call).toString(16)}`;
+    const updates: PixelUpdate[] = [];
+    for (let i = 0; i < pixelsPerCall; i++) {
+        const n = call * pixelsPerCall + i;
+        updates.push({ x: n % width, y: Math.floor(n / width), color });
+    }
+    batches.push(updates);
+}
+
+await Promise.all(batches.map((updates) => setPixels({ updates, source: "script" })));
+
+const state = await getCanvas();
+const pixels = decodePixelsFromBase64(state.pixelsBase64, state.meta.width * state.meta.height);
+let lostPixels = 0;
+let lostColors = 0;
+for (const updates of batches) {
+    const colorIndex = state.meta.palette.indexOf(updates[0].color);
+    if (colorIndex === -1) lostColors++;
+    for (const { x, y } of updates) {
+        if (pixels[indexFor(x, y, state.meta.width)] !== colorIndex) lostPixels++;
+    }
+}
+// Only this run's events; an Upstash log may hold older ones
+let loggedPixels = 0;
+let cursor: number | undefined = firstEventId - 1;
+while (cursor !== undefined) {
+    const page = await getCanvasEvents({ after: cursor, limit: MAX_EVENT_PAGE_SIZE, filter: { types: ["pixel_set"] } });
+    loggedPixels += page.events.length;
+    cursor = page.nextCursor;
+}
+const lostEvents = calls * pixelsPerCall - loggedPixels;
+
+console.log(`${calls} concurrent calls: ${lostPixels} lost pixels, ${lostColors} lost palette colors, ${lostEvents} lost events`);
+
+// Well past Lua's unpack() limit, which a single RPUSH of all events would hit
+const largeBatch = 10_000;
+const current = await store.readState(DEFAULT_CANVAS_ID);
+const events: CanvasEvent[] = Array.from({ length: largeBatch }, (_, i) => ({
+    type: "tool_used",
+    toolName: "get_canvas",
+    argsJson: JSON.stringify({ stress: i }),
+    timestampMs: Date.now(),
+}));
+const before = await store.countEvents(DEFAULT_CANVAS_ID);
+const committed = await store.commitState(DEFAULT_CANVAS_ID, state, { expectedVersion: current?.version, events });
+const lostLargeBatch = committed === null ? largeBatch : largeBatch - (committed.eventCount - before);
+console.log(`one commit of ${largeBatch} events: ${lostLargeBatch} lost events`);
+
+if (lostPixels > 0 || lostColors > 0 || lostEvents !== 0 || lostLargeBatch !== 0) {
+    process.exit(1);
+}
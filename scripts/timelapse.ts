@@ -0,0 +1,38 @@
+import "dotenv/config";
+import { writeFile } from "fs/promises";
+import { parseTimestamp } from "@/lib/canvas";
+import { renderTimelapseGif } from "@/lib/timelapse";
+
+// Usage: bun scripts/timelapse.ts [out.gif] [--from=<ms|ISO>] [--to=<ms|ISO>] [--fps=10] [--scale=1] [--frames=60]
+const options = new Map<string, string>();
+const positional: string[] = [];
+for (const arg of process.argv.slice(2)) {
+    const match = arg.match(/^--([^=]+)=(.*)$/);
+    if (match) options.set(match[1], match[2]);
+    else positional.push(arg);
+}
+
+function timestampOption(name: string): number | undefined {
+    const value = options.get(name);
+    if (value === undefined) return undefined;
+    const ms = parseTimestamp(value);
+    if (ms === undefined) throw new Error(`--${name} must be epoch milliseconds or an ISO 8601 date`);
+    return ms;
+}
+
+function numberOption(name: string): number | undefined {
+    const value = options.get(name);
+    return value === undefined ? undefined : Number(value);
+}
+
+const out = positional[0] ?? "timelapse.gif";
+const gif = await renderTimelapseGif({
+    fromMs: timestampOption("from"),
+    toMs: timestampOption("to"),
+    fps: numberOption("fps"),
+    scale: numberOption("scale"),
+    frames: numberOption("frames"),
+});
+await writeFile(out, gif);
+
+console.log(`Wrote ${out} (${gif.length} bytes)`);